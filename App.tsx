@@ -6,18 +6,48 @@
 
 
 import React, { useEffect, useRef, useState } from 'react';
-import { VoxelEngine } from './services/VoxelEngine';
+import { VoxelEngine, QualitySetting } from './services/VoxelEngine';
+import { BuildLibrary } from './services/BuildLibrary';
+import { RebuildRecorder, RecordingOptions, DEFAULT_RECORDING_OPTIONS } from './services/RebuildRecorder';
 import { UIOverlay } from './components/UIOverlay';
 import { JsonModal } from './components/JsonModal';
 import { PromptModal } from './components/PromptModal';
 import { WelcomeScreen } from './components/WelcomeScreen';
-import { Generators, Templates } from './utils/voxelGenerators';
-import { AppState, VoxelData, SavedModel, LessonStep, ScreenPosition } from './types';
+import { Generators, Templates, TemplateName, DEFAULT_TEMPLATE, buildTemplate, isTemplateName, templatesForSteps } from './utils/voxelGenerators';
+import { serializeLesson } from './utils/lessonFormat';
+import { writeVox } from './utils/voxFormat';
+import { exportGlb, exportStl, ExportFormat } from './utils/modelExport';
+import { downloadBlob, toFileName } from './utils/download';
+import { createShareLink, readShareFragment } from './utils/shareLink';
+import { CommandHistory } from './utils/commandHistory';
+import { createRng, deriveSeed, randomSeed, shuffle } from './utils/random';
+import { StepOrder, isLinearGraph, isStepUnlocked, readRequires, stepOrderOf, unlockedSteps } from './utils/stepGraph';
+import { StepPath, pathKey, stepsAtPath, stepTrail, stackProgress } from './utils/lessonTree';
+import { RebuildStyle, DEFAULT_REBUILD_STYLE } from './utils/rebuildChoreography';
+import { DismantleStrategies, DismantleStyle, DEFAULT_DISMANTLE_STYLE, isDismantleStyle } from './utils/dismantleStrategies';
+import { StepLabelStyle, isStepLabelStyle } from './utils/voxelText';
+import { CONFIG } from './utils/voxelConstants';
+import { AppState, SavedModel, LessonStep, VoxelPick, GhostMode } from './types';
 import { GoogleGenAI } from "@google/genai";
 
+// Rough in-memory size of a snapshot: ~64 bytes per voxel object plus the step strings
+const estimateModelSize = (model: SavedModel) =>
+    model.data.length * 64 + (model.steps || []).reduce((sum, s) => sum + (s.text.length + s.color.length) * 2 + 32, 0);
+
+// Keep recording briefly after the last layer lands so the landing pulse is in the clip
+const AUTO_RECORD_TAIL_MS = 1000;
+
+// How deep generated lessons may nest sub-steps
+const MAX_AI_STEP_DEPTH = 2;
+
 const App: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   const engineRef = useRef<VoxelEngine | null>(null);
+  const libraryRef = useRef<BuildLibrary>(new BuildLibrary());
+  const recorderRef = useRef<RebuildRecorder | null>(null);
+  const rootModelRef = useRef<SavedModel | null>(null); // The lesson itself while a sub-stack is shown
+  const historyRef = useRef(new CommandHistory<SavedModel>(CONFIG.HISTORY_MEMORY_BYTES, estimateModelSize));
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
   
   const [appState, setAppState] = useState<AppState>(AppState.STABLE);
   const [voxelCount, setVoxelCount] = useState<number>(0);
@@ -31,121 +61,391 @@ const App: React.FC = () => {
   const [isGenerating, setIsGenerating] = useState(false);
   
   const [jsonData, setJsonData] = useState('');
+  const [shareLink, setShareLink] = useState('');
   const [isAutoRotate, setIsAutoRotate] = useState(true);
+  const [rebuildStyle, setRebuildStyle] = useState<RebuildStyle>(DEFAULT_REBUILD_STYLE);
+  const [quality, setQuality] = useState<QualitySetting>('auto');
+  const [recordingOptions, setRecordingOptions] = useState<RecordingOptions>(DEFAULT_RECORDING_OPTIONS);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isAutoRecord, setIsAutoRecord] = useState(false); // Record from each dismantle until the rebuild completes
 
   // --- State for Custom Models & Lessons ---
   const [currentBaseModel, setCurrentBaseModel] = useState<string>('Eagle');
   const [lessonSteps, setLessonSteps] = useState<LessonStep[]>([]);
+  const [stepPath, setStepPath] = useState<StepPath>([]); // Sub-stack on screen; [] for the lesson itself
+  const [activeStepOrder, setActiveStepOrder] = useState<StepOrder>('strict'); // How the steps on screen may go back, from their layout
+  const [rebuiltStacks, setRebuiltStacks] = useState<Set<string>>(new Set()); // pathKeys of sub-stacks rebuilt at least once
+  // Metadata of the loaded model that the engine does not track
+  const [currentModelInfo, setCurrentModelInfo] = useState<Pick<SavedModel, 'id' | 'baseModel' | 'template' | 'templateParams' | 'stepLabels' | 'seed' | 'dismantleStyle'>>({ baseModel: 'Eagle' });
   
   // Game State
-  const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
   const [completedSteps, setCompletedSteps] = useState<Set<number>>(new Set());
+  const [flyingSteps, setFlyingSteps] = useState<Set<number>>(new Set()); // Answered, still animating into place
+  const [isRubbleSettled, setIsRubbleSettled] = useState(false);
+  const [isRebuildComplete, setIsRebuildComplete] = useState(false); // Every layer has landed
+  const [mistakes, setMistakes] = useState(0);
   const [shuffledOptions, setShuffledOptions] = useState<number[]>([]);
-  const [stepCentroids, setStepCentroids] = useState<ScreenPosition[]>([]);
+  const [hoveredStep, setHoveredStep] = useState<number | null>(null); // Rubble under the pointer
+  const [ghostMode, setGhostMode] = useState<GhostMode>('off');
+  const [highlightedStep, setHighlightedStep] = useState<number | null>(null); // Card under the pointer
 
   const [customBuilds, setCustomBuilds] = useState<SavedModel[]>([]);
 
+  // Steps of the stack on screen; the round is always played on these
+  const activeSteps = stepPath.length > 0 ? stepsAtPath(lessonSteps, stepPath) : lessonSteps;
+
+  // --- Undo / Redo ---
+
+  // Always the whole lesson, even while one of its sub-stacks is on screen
+  const captureCurrentModel = (): SavedModel | null => {
+      if (!engineRef.current) return null;
+      if (rootModelRef.current) return { ...rootModelRef.current, ...currentModelInfo };
+      return {
+          name: currentBaseModel,
+          ...currentModelInfo,
+          steps: lessonSteps.length > 0 ? lessonSteps : undefined,
+          data: engineRef.current.getVoxelData()
+      };
+  };
+
+  const syncHistoryState = () => {
+      setHistoryState({ canUndo: historyRef.current.canUndo, canRedo: historyRef.current.canRedo });
+  };
+
+  // Call before any change to the loaded lesson or model
+  const recordHistory = (label: string) => {
+      const before = captureCurrentModel();
+      if (!before) return;
+      historyRef.current.record(label, before);
+      syncHistoryState();
+  };
+
+  // Undoing a change to the saved lesson on screen undoes it in the library too
+  const restoreSnapshot = (current: SavedModel, snapshot: SavedModel) => {
+      showModel(snapshot);
+      if (snapshot.id && snapshot.id === current.id) persistCurrentBuild(snapshot);
+  };
+
+  const handleUndo = () => {
+      const current = captureCurrentModel();
+      const snapshot = current && historyRef.current.undo(current);
+      if (snapshot) restoreSnapshot(current, snapshot);
+      syncHistoryState();
+  };
+
+  const handleRedo = () => {
+      const current = captureCurrentModel();
+      const snapshot = current && historyRef.current.redo(current);
+      if (snapshot) restoreSnapshot(current, snapshot);
+      syncHistoryState();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+        if (!(e.ctrlKey || e.metaKey)) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            handleUndo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            handleRedo();
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }); // Re-bind every render so the handlers see current state
+
+  // Pieces in the scene answer like the cards: any voxel of a step that is not rebuilt yet
+  const pickableStep = (pick: VoxelPick | null) => {
+      if (!pick || pick.stepIndex < 0 || pick.stepIndex >= activeSteps.length) return null;
+      if (appState !== AppState.DISMANTLING && appState !== AppState.INTERACTIVE_REBUILD) return null;
+      return completedSteps.has(pick.stepIndex) ? null : pick.stepIndex;
+  };
+
   // 1. Initialize 3D Engine (RUNS ONCE)
   useEffect(() => {
     if (!containerRef.current) return;
 
     // Initialize Engine
-    const engine = new VoxelEngine(
-      containerRef.current,
-      (newState) => setAppState(newState),
-      (count) => setVoxelCount(count)
-    );
+    const engine = new VoxelEngine(containerRef.current);
+    engine.events.on('stateChange', newState => setAppState(newState));
+    engine.events.on('countChange', count => setVoxelCount(count));
+    engine.events.on('layerLanded', ({ stepIndex }) => setFlyingSteps(prev => {
+        const next = new Set(prev);
+        next.delete(stepIndex);
+        return next;
+    }));
+    engine.events.on('allRebuilt', () => setIsRebuildComplete(true));
+    engine.events.on('dismantleSettled', () => setIsRubbleSettled(true));
 
     engineRef.current = engine;
 
     // Initial Model Load
-    engine.loadInitialModel(Generators.Eagle());
-
-    // Resize Listener
-    const handleResize = () => engine.handleResize();
-    window.addEventListener('resize', handleResize);
+    const seed = randomSeed();
+    engine.loadInitialModel(Generators.Eagle(createRng(deriveSeed(seed, 'model'))), seed);
+    setCurrentModelInfo({ baseModel: 'Eagle', seed });
 
     // Auto-hide welcome screen after interaction
     const timer = setTimeout(() => setShowWelcome(false), 5000);
 
     return () => {
-      window.removeEventListener('resize', handleResize);
       clearTimeout(timer);
       engine.cleanup();
     };
   }, []); // Empty dependency array = run once on mount
 
-  // 2. Track Centroids (RUNS WHEN LESSON CHANGES)
   useEffect(() => {
-    if (lessonSteps.length === 0) {
-        setStepCentroids([]);
-        return;
-    }
+    const engine = engineRef.current;
+    if (!engine) return;
+    const offHover = engine.events.on('hover', pick => setHoveredStep(pickableStep(pick)));
+    const offSelect = engine.events.on('select', pick => {
+        const stepIndex = pickableStep(pick);
+        if (stepIndex !== null) handleStepClick(stepIndex);
+    });
+    return () => {
+        offHover();
+        offSelect();
+    };
+  }); // Re-bind every render so the handlers see current state
+
+  // Restore the saved builds library
+  useEffect(() => {
+    libraryRef.current.list()
+        // Keeps builds added before the list arrived, such as a lesson opened from a share link
+        .then(builds => setCustomBuilds(prev => [...builds, ...prev.filter(b => !b.id || !builds.some(saved => saved.id === b.id))]))
+        .catch(err => console.error("Failed to load saved builds", err));
+  }, []);
+
+  // Load a lesson shared through the URL fragment
+  useEffect(() => {
+    if (!window.location.hash) return;
+    let cancelled = false;
+    readShareFragment(window.location.hash)
+        // Saved first, so the lesson on screen is linked to its library entry
+        .then(model => model && !cancelled ? saveCustomBuild(model) : null)
+        .then(saved => {
+            if (!saved || cancelled) return;
+            handleSelectCustomBuild(saved);
+            // Drop the fragment so a reload does not import the lesson again
+            window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        })
+        .catch(err => {
+            console.error("Failed to load shared lesson", err);
+            alert("This lesson link could not be opened.");
+        });
+    return () => { cancelled = true; };
+  }, []);
+
+  const dismantleStyle: DismantleStyle = isDismantleStyle(currentModelInfo.dismantleStyle) ? currentModelInfo.dismantleStyle : DEFAULT_DISMANTLE_STYLE;
+  const stepLabels: StepLabelStyle = isStepLabelStyle(currentModelInfo.stepLabels) ? currentModelInfo.stepLabels : 'off';
+
+  // Ghost hints follow the round's progress
+  useEffect(() => {
+    if (!engineRef.current) return;
+    let steps: number[] = [];
+    if (ghostMode === 'next') steps = unlockedSteps(activeSteps, completedSteps, activeStepOrder);
+    if (ghostMode === 'all') steps = activeSteps.map((_, i) => i).filter(i => !completedSteps.has(i));
+    engineRef.current.setGhostSteps(steps);
+  }, [ghostMode, completedSteps, lessonSteps, stepPath, currentModelInfo.template]);
+
+  useEffect(() => {
+    if (engineRef.current) engineRef.current.setHighlightedStep(highlightedStep);
+  }, [highlightedStep]);
 
-    const interval = setInterval(() => {
-       if (engineRef.current) {
-           const centroids = engineRef.current.getStepCentroids(lessonSteps.length);
-           setStepCentroids(centroids);
-       }
-    }, 30);
+  const handleToggleGhost = () => {
+      setGhostMode(prev => prev === 'off' ? 'next' : prev === 'next' ? 'all' : 'off');
+  };
+
+  // Clears the progress of a rebuild round
+  const resetRound = () => {
+      setFlyingSteps(new Set());
+      setIsRubbleSettled(false);
+      setIsRebuildComplete(false);
+      setMistakes(0);
+      setHighlightedStep(null);
+  };
 
-    return () => clearInterval(interval);
-  }, [lessonSteps]); // Re-run only when the lesson structure changes
+  // Forgets sub-stack navigation and progress when another lesson is loaded
+  const resetNesting = () => {
+      rootModelRef.current = null;
+      setStepPath([]);
+      setRebuiltStacks(new Set());
+  };
 
   const handleDismantle = () => {
     if (engineRef.current) {
-        engineRef.current.dismantle();
+        if (isAutoRecord && !recorderRef.current) startRecording();
+        engineRef.current.dismantle(DismantleStrategies[dismantleStyle]);
         // Prepare for interactive rebuild
-        setCurrentStepIndex(0);
         setCompletedSteps(new Set());
+        resetRound();
         // Shuffle the available steps so the user has to THINK about the order
-        const indices = lessonSteps.map((_, i) => i);
-        setShuffledOptions(indices.sort(() => Math.random() - 0.5));
+        const indices = activeSteps.map((_, i) => i);
+        setShuffledOptions(shuffle(indices, createRng(deriveSeed(engineRef.current.getSeed(), 'shuffle'))));
     }
   };
 
   const handleNewScene = (type: 'Eagle') => {
     const generator = Generators[type];
     if (generator && engineRef.current) {
-      engineRef.current.loadInitialModel(generator());
+      recordHistory('Load Eagle');
+      const seed = randomSeed();
+      engineRef.current.loadInitialModel(generator(createRng(deriveSeed(seed, 'model'))), seed);
       setCurrentBaseModel('Eagle');
+      setCurrentModelInfo({ baseModel: 'Eagle', seed });
+      setActiveStepOrder('strict');
       setLessonSteps([]); 
       setCompletedSteps(new Set());
+      resetRound();
+      resetNesting();
       setShuffledOptions([]);
     }
   };
 
   const handleSelectCustomBuild = (model: SavedModel) => {
+      recordHistory(`Load ${model.name}`);
+      showModel(model);
+  };
+
+  // Loads a model without recording history
+  const showModel = (model: SavedModel) => {
       if (engineRef.current) {
-          engineRef.current.loadInitialModel(model.data);
+          // Older builds have no seed; give them one so exports can replay this session
+          const seed = model.seed ?? randomSeed();
+          engineRef.current.loadInitialModel(model.data, seed);
           setCurrentBaseModel(model.name);
+          setCurrentModelInfo({ id: model.id, baseModel: model.baseModel, template: model.template, templateParams: model.templateParams, stepLabels: model.stepLabels, seed, dismantleStyle: model.dismantleStyle });
+          setActiveStepOrder(stepOrderOf(model.steps || [], model.data));
           setLessonSteps(model.steps || []);
           setCompletedSteps(new Set());
+          resetRound();
+          resetNesting();
+          setShuffledOptions([]);
           if (model.steps) {
               // If it's a lesson, immediately show full state
               setCompletedSteps(new Set(model.steps.map((_, i) => i)));
-              setCurrentStepIndex(model.steps.length);
           }
       }
   };
 
+  // --- Sub-stacks ---
+
+  // Sub-stacks reuse the lesson's template when it fits their steps
+  const subStackTemplate = (steps: LessonStep[]): TemplateName => {
+      const fitting = templatesForSteps(steps);
+      const preferred = currentModelInfo.template;
+      if (isTemplateName(preferred) && fitting.includes(preferred)) return preferred;
+      return fitting[0] ?? DEFAULT_TEMPLATE;
+  };
+
+  // Swaps the scene for the stack at `path`, fully built
+  const showStack = (path: StepPath) => {
+      const engine = engineRef.current;
+      if (!engine) return;
+      if (path.length === 0) {
+          const root = rootModelRef.current;
+          if (!root) return;
+          rootModelRef.current = null;
+          engine.loadInitialModel(root.data, root.seed ?? randomSeed());
+          setActiveStepOrder(stepOrderOf(root.steps || [], root.data));
+      } else {
+          const steps = stepsAtPath(lessonSteps, path);
+          if (steps.length === 0) return;
+          if (!rootModelRef.current) rootModelRef.current = captureCurrentModel();
+          const template = subStackTemplate(steps);
+          const params = template === currentModelInfo.template ? currentModelInfo.templateParams : undefined;
+          const seed = deriveSeed(currentModelInfo.seed ?? randomSeed(), `stack:${pathKey(path)}`);
+          const data = buildTemplate(template, steps, params, stepLabels);
+          engine.loadInitialModel(data, seed);
+          setActiveStepOrder(stepOrderOf(steps, data));
+      }
+      setStepPath(path);
+      setCompletedSteps(new Set(stepsAtPath(lessonSteps, path).map((_, i) => i)));
+      resetRound();
+      setShuffledOptions([]);
+  };
+
+  const handleExpandStep = (index: number) => {
+      if (!activeSteps[index]?.children?.length) return;
+      showStack([...stepPath, index]);
+  };
+
+  // Rebuilding a sub-stack counts towards the lesson's nested progress
+  useEffect(() => {
+      if (isRebuildComplete && stepPath.length > 0) setRebuiltStacks(prev => new Set(prev).add(pathKey(stepPath)));
+  }, [isRebuildComplete, stepPath]);
+
+  const handleRenameCustomBuild = async (model: SavedModel, name: string) => {
+      if (!model.id) return;
+      try {
+          const renamed = await libraryRef.current.rename(model.id, name);
+          if (renamed) {
+              setCustomBuilds(prev => prev.map(b => b.id === renamed.id ? renamed : b));
+              if (currentBaseModel === model.name) setCurrentBaseModel(renamed.name);
+          }
+      } catch (e) {
+          console.error("Failed to rename build", e);
+      }
+  };
+
+  const handleDeleteCustomBuild = async (model: SavedModel) => {
+      if (!model.id) return;
+      try {
+          await libraryRef.current.remove(model.id);
+          setCustomBuilds(prev => prev.filter(b => b.id !== model.id));
+      } catch (e) {
+          console.error("Failed to delete build", e);
+      }
+  };
+
+  /** Adds a build to the library. Returns the stored copy, or the build itself (no id) if saving failed. */
+  const saveCustomBuild = async (model: SavedModel): Promise<SavedModel> => {
+      try {
+          const saved = await libraryRef.current.save(model);
+          setCustomBuilds(prev => [...prev, saved]);
+          return saved;
+      } catch (e) {
+          // Keep the build for this session even if it could not be persisted
+          console.error("Failed to save build", e);
+          setCustomBuilds(prev => [...prev, model]);
+          return model;
+      }
+  };
+
+  // Writes a change to the loaded lesson back to its library entry, if it has one
+  const persistCurrentBuild = async (model: SavedModel) => {
+      const saved = customBuilds.find(b => b.id && b.id === model.id);
+      if (!saved) return;
+      try {
+          // Renames happen in the library, so its name wins
+          const updated = await libraryRef.current.save({ ...saved, ...model, name: saved.name, createdAt: saved.createdAt });
+          setCustomBuilds(prev => prev.map(b => b.id === updated.id ? updated : b));
+      } catch (e) {
+          console.error("Failed to save build", e);
+      }
+  };
+
   const handleStepClick = (clickedIndex: number) => {
       if (completedSteps.has(clickedIndex)) return true;
 
-      // Strict Bottom-Up Logic
-      if (clickedIndex === currentStepIndex) {
+      // Any step with everything beneath it rebuilt can go next
+      if (isStepUnlocked(activeSteps, clickedIndex, completedSteps, activeStepOrder)) {
           // Correct!
-          if (engineRef.current) {
-              // Ensure we wake up the physics
-              engineRef.current.rebuildLayer(clickedIndex);
+          if (engineRef.current && engineRef.current.rebuildLayer(clickedIndex)) {
+              setFlyingSteps(prev => new Set(prev).add(clickedIndex));
           }
           
           setCompletedSteps(prev => new Set(prev).add(clickedIndex));
-          const nextIndex = currentStepIndex + 1;
-          setCurrentStepIndex(nextIndex);
+          setHoveredStep(null);
+          setHighlightedStep(null); // The card disappears without a mouseleave
           return true; // Success
       } else {
-          // Wrong step! 
+          // Wrong step! Counted here, since a quick second try cuts the first one's animation short
+          setMistakes(prev => prev + 1);
           if (engineRef.current) {
               engineRef.current.rejectLayer(clickedIndex);
           }
@@ -154,8 +454,13 @@ const App: React.FC = () => {
   };
 
   const handleShowJson = () => {
-    if (engineRef.current) {
-      setJsonData(engineRef.current.getJsonData());
+    const model = captureCurrentModel();
+    if (model) {
+      setJsonData(serializeLesson(model));
+      setShareLink('');
+      createShareLink(model)
+          .then(setShareLink)
+          .catch(err => console.error("Failed to create share link", err));
       setJsonModalMode('view');
       setIsJsonModalOpen(true);
     }
@@ -166,41 +471,32 @@ const App: React.FC = () => {
       setIsJsonModalOpen(true);
   };
 
-  const handleJsonImport = (jsonStr: string) => {
+  const handleImport = (model: SavedModel) => {
+      // Models arrive here already validated by the import dialog
+      recordHistory('Import');
+      showModel(model);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+      const model = captureCurrentModel();
+      if (!model) return;
+      const { data, steps = [] } = model;
       try {
-          const rawData = JSON.parse(jsonStr);
-          if (!Array.isArray(rawData)) throw new Error("JSON must be an array");
-
-          const voxelData: VoxelData[] = rawData.map((v: any) => {
-              let colorVal = v.c || v.color;
-              let colorInt = 0xCCCCCC;
-
-              if (typeof colorVal === 'string') {
-                  if (colorVal.startsWith('#')) colorVal = colorVal.substring(1);
-                  colorInt = parseInt(colorVal, 16);
-              } else if (typeof colorVal === 'number') {
-                  colorInt = colorVal;
-              }
-
-              return {
-                  x: Number(v.x) || 0,
-                  y: Number(v.y) || 0,
-                  z: Number(v.z) || 0,
-                  color: isNaN(colorInt) ? 0xCCCCCC : colorInt,
-                  stepIndex: v.stepIndex !== undefined ? Number(v.stepIndex) : -1
-              };
-          });
-          
-          if (engineRef.current) {
-              engineRef.current.loadInitialModel(voxelData);
-              setCurrentBaseModel('Imported Build');
-              setLessonSteps([]);
-              setCompletedSteps(new Set());
-              setShuffledOptions([]);
+          let buffer: ArrayBuffer;
+          let mimeType = 'application/octet-stream';
+          if (format === 'glb') {
+              buffer = exportGlb(data, steps, currentBaseModel);
+              mimeType = 'model/gltf-binary';
+          } else if (format === 'stl') {
+              buffer = exportStl(data);
+              mimeType = 'model/stl';
+          } else {
+              buffer = writeVox(data, steps);
           }
-      } catch (e) {
-          console.error("Failed to import JSON", e);
-          alert("Failed to import JSON. Please ensure the format is correct.");
+          downloadBlob(new Blob([buffer], { type: mimeType }), toFileName(currentBaseModel, format));
+      } catch (e: any) {
+          console.error(`Failed to export .${format}`, e);
+          alert(`Failed to export .${format} file. ${e.message || ''}`);
       }
   };
 
@@ -208,6 +504,83 @@ const App: React.FC = () => {
       setIsPromptModalOpen(true);
   }
   
+  const handleQualityChange = (setting: QualitySetting) => {
+      setQuality(setting);
+      if (engineRef.current) engineRef.current.setQuality(setting);
+  };
+
+  const handleRebuildStyleChange = (style: RebuildStyle) => {
+      setRebuildStyle(style);
+      if (engineRef.current) engineRef.current.setRebuildStyle(style);
+  };
+
+  // Stored with the lesson, so it travels with saves, exports and share links
+  const handleDismantleStyleChange = (style: DismantleStyle) => {
+      setCurrentModelInfo(prev => ({ ...prev, dismantleStyle: style }));
+      const current = captureCurrentModel();
+      if (current) persistCurrentBuild({ ...current, dismantleStyle: style });
+  };
+
+  // Rebuilds the loaded lesson's shape from its steps
+  const handleTemplateChange = (template: TemplateName, templateParams?: Record<string, number>) => {
+      const current = captureCurrentModel();
+      if (!current || lessonSteps.length === 0 || stepPath.length > 0) return;
+      recordHistory('Change template');
+      const updated = { ...current, template, templateParams, data: buildTemplate(template, lessonSteps, templateParams, stepLabels) };
+      showModel(updated);
+      persistCurrentBuild(updated);
+  };
+
+  // Labels are part of the voxels, so the shape is rebuilt with or without them
+  const handleStepLabelsChange = (labels: StepLabelStyle) => {
+      const current = captureCurrentModel();
+      if (!current || !isTemplateName(current.template) || lessonSteps.length === 0 || stepPath.length > 0) return;
+      recordHistory('Change labels');
+      const stepLabels = labels === 'off' ? undefined : labels;
+      const updated = { ...current, stepLabels, data: buildTemplate(current.template, lessonSteps, current.templateParams, labels) };
+      showModel(updated);
+      persistCurrentBuild(updated);
+  };
+
+  // --- Recording ---
+
+  const startRecording = () => {
+      if (!engineRef.current || recorderRef.current) return;
+      try {
+          const recorder = new RebuildRecorder(engineRef.current, recordingOptions);
+          recorder.start();
+          recorderRef.current = recorder;
+          setIsRecording(true);
+      } catch (e: any) {
+          console.error("Failed to start recording", e);
+          alert(`Failed to start recording. ${e.message || ''}`);
+      }
+  };
+
+  const stopRecording = () => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      recorderRef.current = null;
+      setIsRecording(false);
+      recorder.stop()
+          .then(blob => downloadBlob(blob, toFileName(currentBaseModel, recorder.fileExtension)))
+          .catch(e => {
+              console.error("Failed to save recording", e);
+              alert(`Failed to save recording. ${e.message || ''}`);
+          });
+  };
+
+  const handleToggleRecording = () => {
+      if (recorderRef.current) stopRecording();
+      else startRecording();
+  };
+
+  useEffect(() => {
+      if (!isRebuildComplete || !isAutoRecord || !recorderRef.current) return;
+      const timer = setTimeout(stopRecording, AUTO_RECORD_TAIL_MS);
+      return () => clearTimeout(timer);
+  }, [isRebuildComplete, isAutoRecord]);
+
   const handleToggleRotation = () => {
       const newState = !isAutoRotate;
       setIsAutoRotate(newState);
@@ -253,7 +626,7 @@ const App: React.FC = () => {
     }
   };
 
-  const handlePromptSubmit = async (prompt: string, imageBase64?: string) => {
+  const handlePromptSubmit = async (prompt: string, imageBase64?: string, template?: TemplateName) => {
     setIsGenerating(true);
     setIsPromptModalOpen(false);
 
@@ -269,15 +642,28 @@ const App: React.FC = () => {
             const cleanBase64 = imageBase64.split(',')[1] || imageBase64;
             parts.push({ inlineData: { mimeType: 'image/png', data: cleanBase64 } });
         }
+
+        // Stay within what the chosen template can stack
+        const maxSteps = Math.min(7, template ? Templates[template].maxSteps : 7);
+        const minSteps = Math.min(maxSteps, Math.max(3, template ? Templates[template].minSteps : 3));
+        // Shapes that stack strictly in order cannot show steps side by side
+        const allowsGraph = !template || Templates[template].stepOrder === 'graph';
+        const orderRules = allowsGraph ? `
+            - "requires" lists the 0-based indices of EARLIER steps that must be done before this one.
+            - Steps that can happen in parallel must not require each other; use [] for steps that can start right away.` : `
+            - Leave "requires" out: every step follows the one before it.`;
         
         const systemPrompt = `
             You are "Concept Stack", an educational AI.
-            Your goal is to break down the user's topic into 3 to 7 SEQUENTIAL LOGICAL STEPS.
+            Your goal is to break down the user's topic into ${minSteps} to ${maxSteps} LOGICAL STEPS.
             
             OUTPUT RULES:
             - Return ONLY valid JSON.
             - NO markdown code blocks.
-            - Format: { "steps": [{ "text": "Step 1", "color": "#HEX" }] }
+            - Format: { "steps": [{ "text": "Step 1", "color": "#HEX",${allowsGraph ? ' "requires": [],' : ''} "children": [] }] }
+            ${orderRules}
+            - List the steps in an order where every step comes after the steps it requires.
+            - A step that is a process of its own may break down further into 2 to 5 "children" sub-steps, in the same format (at most ${MAX_AI_STEP_DEPTH} levels deep). Leave "children" out for simple steps.
             - Steps must be short (max 6 words).
             - Use distinct, vibrant colors.
         `;
@@ -305,12 +691,15 @@ const App: React.FC = () => {
             throw new Error("Invalid JSON structure received from AI.");
         }
 
-        const steps = parsedData.steps.map((s: any, i: number) => ({
+        const readSteps = (list: any[], depth: number): LessonStep[] => list.map((s: any, i: number) => ({
             text: s.text || `Step ${i + 1}`,
-            color: s.color || "#3498DB"
+            color: s.color || "#3498DB",
+            requires: readRequires(s.requires, i),
+            children: depth < MAX_AI_STEP_DEPTH && Array.isArray(s.children) && s.children.length > 0 ? readSteps(s.children, depth + 1) : undefined
         }));
+        const steps = readSteps(parsedData.steps, 1);
 
-        loadLessonFromSteps(steps, prompt);
+        await loadLessonFromSteps(steps, prompt, randomSeed(), template);
 
     } catch (err: any) {
         console.error("Generation failed:", err);
@@ -329,33 +718,42 @@ const App: React.FC = () => {
         const errorMsg = err.message || "Unknown error";
         alert(`AI Error (${errorMsg}). Loading fallback lesson.`);
         
-        loadLessonFromSteps(fallbackSteps, prompt + " (Fallback)");
+        await loadLessonFromSteps(fallbackSteps, prompt + " (Fallback)", randomSeed(), template);
     } finally {
         setIsGenerating(false);
     }
   };
 
-  const loadLessonFromSteps = (steps: LessonStep[], title: string) => {
+  // Without a chosen template, one that suits the steps is picked at random. So is one when the
+  // chosen template cannot follow the steps' prerequisite graph.
+  const loadLessonFromSteps = async (steps: LessonStep[], title: string, seed: number = randomSeed(), template?: TemplateName) => {
       try {
-        const styleKeys = ['Pyramid', 'Tower', 'Spiral'] as const;
-        const randomStyle = styleKeys[Math.floor(Math.random() * styleKeys.length)];
-        
-        // Ensure Template exists
-        const templateFn = Templates[randomStyle] || Templates.Tower;
+        let templateName = template && (isLinearGraph(steps) || Templates[template].stepOrder === 'graph') ? template : undefined;
+        if (!templateName) {
+            const fitting = templatesForSteps(steps);
+            const choices = fitting.length > 0 ? fitting : Object.keys(Templates) as TemplateName[];
+            const rng = createRng(deriveSeed(seed, 'template'));
+            templateName = choices[Math.floor(rng() * choices.length)];
+        }
         
-        console.log(`Generating ${randomStyle} with ${steps.length} steps`);
-        const voxelData = templateFn(steps);
+        console.log(`Generating ${templateName} with ${steps.length} steps`);
+        const voxelData = buildTemplate(templateName, steps);
         
         if (engineRef.current) {
-            engineRef.current.loadInitialModel(voxelData);
+            const cleanTitle = title.length > 25 ? title.substring(0, 25) + "..." : title;
+            // Saved first, so later changes to the lesson know which library entry to update
+            const saved = await saveCustomBuild({ name: cleanTitle, data: voxelData, steps, template: templateName, seed });
+            recordHistory('Generate lesson');
+            engineRef.current.loadInitialModel(voxelData, seed);
             setLessonSteps(steps);
+            setActiveStepOrder(stepOrderOf(steps, voxelData));
             setCompletedSteps(new Set(steps.map((_, i) => i)));
-            setCurrentStepIndex(steps.length);
+            resetRound();
+            resetNesting();
             setShuffledOptions([]);
             
-            const cleanTitle = title.length > 25 ? title.substring(0, 25) + "..." : title;
-            setCustomBuilds(prev => [...prev, { name: cleanTitle, data: voxelData, steps }]);
             setCurrentBaseModel(cleanTitle);
+            setCurrentModelInfo({ id: saved.id, template: templateName, seed });
         }
       } catch (e) {
           console.error("Error in loadLessonFromSteps:", e);
@@ -364,29 +762,65 @@ const App: React.FC = () => {
 
   return (
     <div className="relative w-full h-screen bg-[#f0f2f5] overflow-hidden">
-      <div ref={containerRef} className="absolute inset-0 z-0" />
+      <div ref={containerRef} className="absolute inset-0 z-0" style={{ cursor: hoveredStep !== null ? 'pointer' : undefined }} />
       
       <UIOverlay 
         voxelCount={voxelCount}
         appState={appState}
         currentBaseModel={currentBaseModel}
-        lessonSteps={lessonSteps}
+        lessonSteps={activeSteps}
+        breadcrumbs={[currentBaseModel, ...stepTrail(lessonSteps, stepPath).map(s => s.text)]}
+        onNavigate={depth => showStack(stepPath.slice(0, depth))}
+        stepProgress={activeSteps.map((_, i) => stackProgress(lessonSteps, [...stepPath, i], rebuiltStacks))}
+        lessonProgress={stackProgress(lessonSteps, [], rebuiltStacks)}
+        onExpandStep={handleExpandStep}
         customBuilds={customBuilds}
         completedSteps={completedSteps}
+        flyingSteps={flyingSteps}
         shuffledOptions={shuffledOptions}
-        stepCentroids={stepCentroids}
+        anchorSource={engineRef.current}
+        hoveredStep={hoveredStep}
+        ghostMode={ghostMode}
+        onToggleGhost={handleToggleGhost}
+        onStepHover={setHighlightedStep}
+        isRubbleSettled={isRubbleSettled}
+        isRebuildComplete={isRebuildComplete}
+        mistakes={mistakes}
         isAutoRotate={isAutoRotate}
+        isRecording={isRecording}
+        isAutoRecord={isAutoRecord}
+        recordingOptions={recordingOptions}
+        onRecordingOptionsChange={setRecordingOptions}
+        onToggleRecording={handleToggleRecording}
+        onToggleAutoRecord={() => setIsAutoRecord(prev => !prev)}
+        quality={quality}
+        onQualityChange={handleQualityChange}
+        rebuildStyle={rebuildStyle}
+        onRebuildStyleChange={handleRebuildStyleChange}
+        dismantleStyle={dismantleStyle}
+        template={stepPath.length === 0 ? currentModelInfo.template : undefined}
+        templateParams={currentModelInfo.templateParams}
+        stepLabels={stepLabels}
+        onStepLabelsChange={handleStepLabelsChange}
+        onTemplateChange={handleTemplateChange}
+        onDismantleStyleChange={handleDismantleStyleChange}
         isInfoVisible={showWelcome}
         isGenerating={isGenerating}
         onDismantle={handleDismantle}
         onStepClick={handleStepClick}
         onNewScene={handleNewScene}
         onSelectCustomBuild={handleSelectCustomBuild}
+        onRenameCustomBuild={handleRenameCustomBuild}
+        onDeleteCustomBuild={handleDeleteCustomBuild}
         onPromptCreate={openPrompt}
         onShowJson={handleShowJson}
         onImportJson={handleImportClick}
         onToggleRotation={handleToggleRotation}
         onToggleInfo={() => setShowWelcome(!showWelcome)}
+        canUndo={historyState.canUndo}
+        canRedo={historyState.canRedo}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
       />
 
       <WelcomeScreen visible={showWelcome} />
@@ -395,8 +829,10 @@ const App: React.FC = () => {
         isOpen={isJsonModalOpen}
         onClose={() => setIsJsonModalOpen(false)}
         data={jsonData}
+        shareLink={shareLink}
         isImport={jsonModalMode === 'import'}
-        onImport={handleJsonImport}
+        onImport={handleImport}
+        onExport={handleExport}
       />
 
       <PromptModal
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { VoxelEngine } from '../services/VoxelEngine';
+import { AppState, SavedModel } from '../types';
+import { createRng, deriveSeed, randomSeed, shuffle } from '../utils/random';
+import { DismantleStrategies, DEFAULT_DISMANTLE_STYLE, isDismantleStyle } from '../utils/dismantleStrategies';
+import { isStepUnlocked, stepOrderOf } from '../utils/stepGraph';
+import { Hammer, RotateCcw, CheckCircle2 } from 'lucide-react';
+
+interface ConceptStackEmbedProps {
+  lesson: SavedModel;
+  autoRotate?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Self-contained lesson player for other pages: one engine per instance, sized to its
+ * own box, with a compact deconstruct / rebuild round. Give it a height (or a parent that has one).
+ */
+export const ConceptStackEmbed: React.FC<ConceptStackEmbedProps> = ({ lesson, autoRotate = true, className = '', style }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const engineRef = useRef<VoxelEngine | null>(null);
+
+  const [appState, setAppState] = useState<AppState>(AppState.STABLE);
+  const [completedSteps, setCompletedSteps] = useState<Set<number>>(new Set());
+  const [shuffledOptions, setShuffledOptions] = useState<number[]>([]);
+  const [errorIndex, setErrorIndex] = useState<number | null>(null);
+  const [isRebuildComplete, setIsRebuildComplete] = useState(false);
+
+  const steps = lesson.steps || [];
+  const stepOrder = useMemo(() => stepOrderOf(lesson.steps || [], lesson.data), [lesson]);
+  const isInteractive = appState === AppState.DISMANTLING || appState === AppState.INTERACTIVE_REBUILD || appState === AppState.REJECTING;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const engine = new VoxelEngine(containerRef.current);
+    engine.events.on('stateChange', newState => setAppState(newState));
+    engine.events.on('allRebuilt', () => setIsRebuildComplete(true));
+    engineRef.current = engine;
+    return () => {
+        engine.cleanup();
+        engineRef.current = null;
+    };
+  }, []);
+
+  const loadLesson = () => {
+      if (!engineRef.current) return;
+      engineRef.current.loadInitialModel(lesson.data, lesson.seed ?? randomSeed());
+      setCompletedSteps(new Set());
+      setShuffledOptions([]);
+      setErrorIndex(null);
+      setIsRebuildComplete(false);
+  };
+
+  useEffect(loadLesson, [lesson]);
+
+  useEffect(() => {
+    if (engineRef.current) engineRef.current.setAutoRotate(autoRotate);
+  }, [autoRotate]);
+
+  const handleDismantle = () => {
+      const engine = engineRef.current;
+      if (!engine) return;
+      const style = isDismantleStyle(lesson.dismantleStyle) ? lesson.dismantleStyle : DEFAULT_DISMANTLE_STYLE;
+      engine.dismantle(DismantleStrategies[style]);
+      setCompletedSteps(new Set());
+      setIsRebuildComplete(false);
+      setShuffledOptions(shuffle(steps.map((_, i) => i), createRng(deriveSeed(engine.getSeed(), 'shuffle'))));
+  };
+
+  const handleStepClick = (index: number) => {
+      const engine = engineRef.current;
+      if (!engine || completedSteps.has(index)) return;
+      if (isStepUnlocked(steps, index, completedSteps, stepOrder)) {
+          engine.rebuildLayer(index);
+          setCompletedSteps(prev => new Set(prev).add(index));
+      } else {
+          engine.rejectLayer(index);
+          setErrorIndex(index);
+          setTimeout(() => setErrorIndex(null), 800);
+      }
+  };
+
+  // Clicking rubble answers like the chips
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    return engine.events.on('select', pick => {
+        if (isInteractive && appState !== AppState.REJECTING && pick.stepIndex >= 0 && pick.stepIndex < steps.length) {
+            handleStepClick(pick.stepIndex);
+        }
+    });
+  }); // Re-bind every render so the handler sees current state
+
+  return (
+    <div className={`relative overflow-hidden font-sans select-none ${className}`} style={style}>
+      <div ref={containerRef} className="absolute inset-0" />
+
+      <div className="absolute bottom-0 left-0 w-full p-3 flex flex-wrap justify-center gap-2 pointer-events-none">
+          {appState === AppState.STABLE && steps.length > 0 && (
+              <button
+                onClick={handleDismantle}
+                className="pointer-events-auto flex items-center gap-2 px-4 py-2 rounded-xl bg-rose-500 hover:bg-rose-600 text-white text-sm font-bold shadow-lg border-b-[4px] border-rose-800 active:border-b-0 active:translate-y-[4px]"
+              >
+                  <Hammer size={16} strokeWidth={2.5} />
+                  Deconstruct
+              </button>
+          )}
+
+          {isInteractive && !isRebuildComplete && shuffledOptions.map(index => {
+              if (completedSteps.has(index)) return null;
+              const step = steps[index];
+              return (
+                  <button
+                    key={`chip-${index}`}
+                    onClick={() => handleStepClick(index)}
+                    className={`pointer-events-auto max-w-[12rem] px-3 py-2 rounded-lg text-white text-xs font-black leading-tight shadow-lg border-b-[4px] border-black/20 active:border-b-0 active:translate-y-[4px] ${errorIndex === index ? 'animate-shake bg-rose-500' : ''}`}
+                    style={{ backgroundColor: errorIndex === index ? undefined : step.color }}
+                  >
+                      {step.text}
+                  </button>
+              );
+          })}
+
+          {isRebuildComplete && (
+              <div className="pointer-events-auto flex items-center gap-3 px-4 py-2 rounded-xl bg-white/95 shadow-lg text-sm font-bold text-slate-700">
+                  <CheckCircle2 size={16} className="text-emerald-500" />
+                  Rebuilt!
+                  <button onClick={loadLesson} title="Start over" className="p-1 rounded-lg text-slate-500 hover:bg-slate-100">
+                      <RotateCcw size={16} strokeWidth={2.5} />
+                  </button>
+              </div>
+          )}
+      </div>
+    </div>
+  );
+};
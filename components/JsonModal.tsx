@@ -4,48 +4,137 @@
 */
 
 
-import React, { useState, useEffect } from 'react';
-import { X, FileJson, Upload, Copy, Check } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, FileJson, Upload, Copy, Check, FolderOpen, Download, Boxes, Link, AlertTriangle, CheckCircle2, ArrowLeft, Wrench } from 'lucide-react';
+import { SavedModel } from '../types';
+import { parseVox, VoxStepMapping } from '../utils/voxFormat';
+import { ExportFormat } from '../utils/modelExport';
+import { validateLessonJson, validateModel, hasErrors, ValidationReport } from '../utils/lessonValidation';
+import { ModelPreview } from './ModelPreview';
 
 interface JsonModalProps {
   isOpen: boolean;
   onClose: () => void;
   data?: string;
+  shareLink?: string;
   isImport?: boolean;
-  onImport?: (json: string) => void;
+  onImport?: (model: SavedModel) => void;
+  onExport?: (format: ExportFormat) => void;
 }
 
-export const JsonModal: React.FC<JsonModalProps> = ({ isOpen, onClose, data = '', isImport = false, onImport }) => {
+const STEP_MAPPING_OPTIONS: { value: VoxStepMapping; label: string }[] = [
+    { value: 'none', label: 'No steps (plain model)' },
+    { value: 'layer', label: 'One step per layer' },
+    { value: 'palette', label: 'One step per palette color' },
+];
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; title: string }[] = [
+    { format: 'glb', label: '.glb', title: 'glTF model for slides and 3D tools' },
+    { format: 'stl', label: '.stl', title: 'Watertight mesh for 3D printing' },
+    { format: 'vox', label: '.vox', title: 'MagicaVoxel model' },
+];
+
+// Long reports are cut off; the first problems are usually enough to spot the pattern
+const MAX_LISTED_ISSUES = 100;
+
+export const JsonModal: React.FC<JsonModalProps> = ({ isOpen, onClose, data = '', shareLink = '', isImport = false, onImport, onExport }) => {
   const [importText, setImportText] = useState('');
   const [error, setError] = useState('');
   const [isCopied, setIsCopied] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [voxFile, setVoxFile] = useState<{ name: string; buffer: ArrayBuffer } | null>(null);
+  const [stepMapping, setStepMapping] = useState<VoxStepMapping>('layer');
+  const [isDragging, setIsDragging] = useState(false);
+  const [report, setReport] = useState<ValidationReport | null>(null);
+  const [autoFix, setAutoFix] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
       if (isOpen) {
           setImportText('');
           setError('');
           setIsCopied(false);
+          setIsLinkCopied(false);
+          setVoxFile(null);
+          setIsDragging(false);
+          setReport(null);
+          setAutoFix(false);
       }
   }, [isOpen]);
 
   if (!isOpen) return null;
 
-  const handleImportClick = () => {
-      if (!importText.trim()) {
-          setError('Please paste JSON data first.');
-          return;
-      }
+  const handleFile = async (file: File) => {
+      setError('');
+      setReport(null);
       try {
-          JSON.parse(importText); // Simple validation
-          if (onImport) {
-              onImport(importText);
-              onClose();
+          if (file.name.toLowerCase().endsWith('.vox')) {
+              setVoxFile({ name: file.name, buffer: await file.arrayBuffer() });
+          } else {
+              setVoxFile(null);
+              setImportText(await file.text());
           }
       } catch (e) {
-          setError('Invalid JSON format. Please check your input.');
+          console.error('Failed to read file:', e);
+          setError('Could not read that file.');
+      }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) handleFile(file);
+      e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+      if (!isImport) return;
+      e.preventDefault();
+      setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+      if (!isImport) return;
+      e.preventDefault();
+      setIsDragging(false);
+      const file = e.dataTransfer.files?.[0];
+      if (file) handleFile(file);
+  };
+
+  const validateInput = (): ValidationReport => {
+      if (voxFile) {
+          try {
+              const { data: voxels, steps } = parseVox(voxFile.buffer, { stepMapping });
+              return validateModel({ name: voxFile.name.replace(/\.vox$/i, '') || 'Imported Build', data: voxels, steps });
+          } catch (e: any) {
+              return { issues: [{ path: '', message: e.message, severity: 'error', fixable: false }], model: null, fixedModel: null };
+          }
+      }
+      return validateLessonJson(importText);
+  };
+
+  const handleCheckClick = () => {
+      if (!voxFile && !importText.trim()) {
+          setError('Please paste JSON data or open a file first.');
+          return;
+      }
+      setError('');
+      setAutoFix(false);
+      setReport(validateInput());
+  };
+
+  const handleImportClick = () => {
+      const model = report && (autoFix ? report.fixedModel : report.model);
+      if (model && onImport) {
+          onImport(model);
+          onClose();
       }
   };
 
+  const previewModel = report ? (autoFix ? report.fixedModel : report.model) || report.fixedModel : null;
+  const canLoad = !!report && !!(autoFix ? report.fixedModel : report.model);
+  const errorCount = report ? report.issues.filter(i => i.severity === 'error').length : 0;
+  const warningCount = report ? report.issues.length - errorCount : 0;
+
   const handleCopy = async () => {
       if (!data) return;
       try {
@@ -57,9 +146,24 @@ export const JsonModal: React.FC<JsonModalProps> = ({ isOpen, onClose, data = ''
       }
   };
 
+  const handleCopyLink = async () => {
+      if (!shareLink) return;
+      try {
+          await navigator.clipboard.writeText(shareLink);
+          setIsLinkCopied(true);
+          setTimeout(() => setIsLinkCopied(false), 2000);
+      } catch (err) {
+          console.error('Failed to copy link:', err);
+      }
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/20 backdrop-blur-md p-4 font-sans">
-      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl flex flex-col h-[70vh] border-4 border-slate-100 animate-in fade-in zoom-in duration-200 scale-95 sm:scale-100">
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl flex flex-col h-[70vh] border-4 border-slate-100 animate-in fade-in zoom-in duration-200 scale-95 sm:scale-100">
         
         <div className="flex items-center justify-between p-6 border-b border-slate-100">
           <div className="flex items-center gap-3">
@@ -70,7 +174,7 @@ export const JsonModal: React.FC<JsonModalProps> = ({ isOpen, onClose, data = ''
                 <h2 className="text-xl font-extrabold text-slate-800">
                     {isImport ? 'Import Blueprint' : 'Copy and share your model'}
                 </h2>
-                <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">JSON Format</p>
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">{isImport ? 'JSON or MagicaVoxel (.vox)' : 'JSON Format'}</p>
             </div>
           </div>
           <button 
@@ -82,13 +186,101 @@ export const JsonModal: React.FC<JsonModalProps> = ({ isOpen, onClose, data = ''
         </div>
 
         <div className="flex-1 p-6 overflow-hidden bg-slate-50/50 flex flex-col relative">
-          <textarea 
-            readOnly={!isImport}
-            value={isImport ? importText : data}
-            onChange={isImport ? (e) => setImportText(e.target.value) : undefined}
-            placeholder={isImport ? "Paste your voxel JSON data here..." : ""}
-            className={`w-full h-full resize-none bg-white border-2 rounded-xl p-4 font-mono text-xs text-slate-600 focus:outline-none transition-all ${isImport ? 'border-emerald-200 focus:border-emerald-400 focus:ring-4 focus:ring-emerald-100' : 'border-slate-200 focus:border-blue-400 focus:ring-4 focus:ring-blue-100'}`}
-          />
+          {isImport && report ? (
+              <div className="w-full h-full flex gap-4 min-h-0">
+                  <div className="shrink-0 flex flex-col gap-2">
+                      <div className="bg-white border-2 border-slate-200 rounded-xl p-2">
+                          {previewModel ? (
+                              <ModelPreview data={previewModel.data} />
+                          ) : (
+                              <div className="w-[240px] h-[240px] flex items-center justify-center text-xs font-bold text-slate-400 text-center p-4">
+                                  Nothing to preview
+                              </div>
+                          )}
+                      </div>
+                      {previewModel && (
+                          <div className="text-xs font-bold text-slate-500 px-1 space-y-0.5">
+                              <p className="text-slate-800 truncate max-w-[240px]">{previewModel.name}</p>
+                              <p>{previewModel.data.length} blocks · {previewModel.steps?.length || 0} steps</p>
+                          </div>
+                      )}
+                  </div>
+
+                  <div className="flex-1 min-w-0 flex flex-col gap-3">
+                      <div className={`flex items-center gap-2 px-4 py-3 rounded-xl text-sm font-bold ${errorCount > 0 ? 'bg-rose-50 text-rose-600' : 'bg-emerald-50 text-emerald-600'}`}>
+                          {errorCount > 0 ? <AlertTriangle size={18} /> : <CheckCircle2 size={18} />}
+                          {errorCount > 0
+                              ? `${errorCount} error${errorCount === 1 ? '' : 's'}${warningCount > 0 ? `, ${warningCount} warning${warningCount === 1 ? '' : 's'}` : ''}`
+                              : warningCount > 0 ? `Valid with ${warningCount} warning${warningCount === 1 ? '' : 's'}` : 'Valid — ready to load'}
+                      </div>
+
+                      {hasErrors(report) && report.fixedModel && (
+                          <label className="flex items-center gap-2 px-1 text-sm font-bold text-slate-600 cursor-pointer">
+                              <input type="checkbox" checked={autoFix} onChange={(e) => setAutoFix(e.target.checked)} className="w-4 h-4 accent-emerald-500" />
+                              <Wrench size={14} />
+                              Auto-fix all problems
+                          </label>
+                      )}
+
+                      <ul className="flex-1 overflow-y-auto space-y-1 pr-1">
+                          {report.issues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+                              <li key={idx} className="bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs">
+                                  <div className="flex items-center gap-2">
+                                      <span className={`px-1.5 py-0.5 rounded font-black uppercase text-[9px] tracking-wider ${issue.severity === 'error' ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-700'}`}>
+                                          {issue.severity}
+                                      </span>
+                                      {issue.path && <code className="font-mono text-slate-500">{issue.path}</code>}
+                                      {!issue.fixable && <span className="ml-auto text-[9px] font-bold uppercase text-slate-400">Not fixable</span>}
+                                  </div>
+                                  <p className="mt-1 font-medium text-slate-700">{issue.message}</p>
+                              </li>
+                          ))}
+                          {report.issues.length > MAX_LISTED_ISSUES && (
+                              <li className="text-xs font-bold text-slate-400 px-3 py-2">
+                                  ...and {report.issues.length - MAX_LISTED_ISSUES} more
+                              </li>
+                          )}
+                      </ul>
+                  </div>
+              </div>
+          ) : voxFile ? (
+              <div className="w-full h-full bg-white border-2 border-emerald-200 rounded-xl p-6 flex flex-col items-center justify-center gap-4">
+                  <div className="p-3 rounded-2xl bg-emerald-100 text-emerald-600">
+                      <Boxes size={32} strokeWidth={2.5} />
+                  </div>
+                  <div className="text-center">
+                      <p className="text-lg font-extrabold text-slate-800 break-all">{voxFile.name}</p>
+                      <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">MagicaVoxel Model</p>
+                  </div>
+                  <label className="flex flex-col gap-1 text-sm font-bold text-slate-500 w-full max-w-xs">
+                      Lesson steps
+                      <select
+                          value={stepMapping}
+                          onChange={(e) => { setStepMapping(e.target.value as VoxStepMapping); setReport(null); }}
+                          className="bg-slate-50 border-2 border-slate-200 rounded-xl p-2 text-slate-700 focus:outline-none focus:border-emerald-400"
+                      >
+                          {STEP_MAPPING_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                      </select>
+                  </label>
+                  <button onClick={() => { setVoxFile(null); setReport(null); }} className="text-xs font-bold text-slate-400 hover:text-slate-600">
+                      Paste JSON instead
+                  </button>
+              </div>
+          ) : (
+              <textarea 
+                readOnly={!isImport}
+                value={isImport ? importText : data}
+                onChange={isImport ? (e) => { setImportText(e.target.value); setReport(null); } : undefined}
+                placeholder={isImport ? "Paste a lesson file or voxel JSON array here, or drop a .json / .vox file..." : ""}
+                className={`w-full h-full resize-none bg-white border-2 rounded-xl p-4 font-mono text-xs text-slate-600 focus:outline-none transition-all ${isImport ? 'border-emerald-200 focus:border-emerald-400 focus:ring-4 focus:ring-emerald-100' : 'border-slate-200 focus:border-blue-400 focus:ring-4 focus:ring-blue-100'}`}
+              />
+          )}
+
+          {isImport && isDragging && (
+              <div className="absolute inset-6 rounded-xl border-4 border-dashed border-emerald-400 bg-emerald-50/90 flex items-center justify-center text-emerald-600 font-extrabold pointer-events-none">
+                  Drop .json or .vox file
+              </div>
+          )}
           
           {isImport && error && (
               <div className="absolute bottom-8 left-8 right-8 bg-rose-100 text-rose-600 px-4 py-2 rounded-lg text-xs font-bold shadow-sm border border-rose-200 animate-in slide-in-from-bottom-2">
@@ -100,6 +292,30 @@ export const JsonModal: React.FC<JsonModalProps> = ({ isOpen, onClose, data = ''
         <div className="p-6 border-t border-slate-100 flex justify-end bg-white rounded-b-3xl gap-3">
           {isImport ? (
               <>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,.vox,application/json"
+                    className="hidden"
+                    onChange={handleFileChange}
+                />
+                {report ? (
+                    <button
+                        onClick={() => setReport(null)}
+                        className="flex items-center gap-2 px-6 py-3 mr-auto text-slate-600 text-sm font-bold bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+                    >
+                        <ArrowLeft size={18} strokeWidth={2.5} />
+                        Edit Input
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-2 px-6 py-3 mr-auto text-slate-600 text-sm font-bold bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+                    >
+                        <FolderOpen size={18} strokeWidth={2.5} />
+                        Open File
+                    </button>
+                )}
                 <button 
                     onClick={onClose}
                     className="px-6 py-3 text-slate-500 font-bold hover:bg-slate-50 rounded-xl transition-colors"
@@ -107,14 +323,43 @@ export const JsonModal: React.FC<JsonModalProps> = ({ isOpen, onClose, data = ''
                     Cancel
                 </button>
                 <button 
-                    onClick={handleImportClick}
-                    className="px-6 py-3 bg-emerald-500 text-white text-sm font-bold rounded-xl hover:bg-emerald-600 transition-colors shadow-lg shadow-emerald-500/30 border-b-[4px] border-emerald-700 active:border-b-0 active:translate-y-[4px]"
+                    onClick={report ? handleImportClick : handleCheckClick}
+                    disabled={!!report && !canLoad}
+                    className="px-6 py-3 bg-emerald-500 text-white text-sm font-bold rounded-xl hover:bg-emerald-600 transition-colors shadow-lg shadow-emerald-500/30 border-b-[4px] border-emerald-700 active:border-b-0 active:translate-y-[4px] disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                    Import Build
+                    {report ? 'Import Build' : 'Check & Preview'}
                 </button>
               </>
           ) : (
               <>
+                {onExport && (
+                    <div className="flex gap-2 mr-auto">
+                        {EXPORT_OPTIONS.map(o => (
+                            <button
+                                key={o.format}
+                                onClick={() => onExport(o.format)}
+                                title={o.title}
+                                className="flex items-center gap-2 px-4 py-3 text-slate-600 text-sm font-bold bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+                            >
+                                <Download size={16} strokeWidth={2.5} />
+                                {o.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <button
+                    onClick={handleCopyLink}
+                    disabled={!shareLink}
+                    className={`
+                        flex items-center gap-2 px-6 py-3 text-sm font-bold rounded-xl transition-all border-b-[4px] active:border-b-0 active:translate-y-[4px] disabled:opacity-50
+                        ${isLinkCopied 
+                            ? 'bg-emerald-500 text-white border-emerald-700 shadow-lg shadow-emerald-500/30' 
+                            : 'bg-indigo-500 text-white border-indigo-700 shadow-lg shadow-indigo-500/30 hover:bg-indigo-600'}
+                    `}
+                >
+                    {isLinkCopied ? <Check size={18} strokeWidth={3} /> : <Link size={18} strokeWidth={2.5} />}
+                    {isLinkCopied ? 'Copied!' : 'Copy Link'}
+                </button>
                 <button
                     onClick={handleCopy}
                     className={`
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef } from 'react';
+import { VoxelData } from '../types';
+
+interface ModelPreviewProps {
+  data: VoxelData[];
+  width?: number;
+  height?: number;
+}
+
+const COS30 = Math.cos(Math.PI / 6);
+const SIN30 = 0.5;
+
+// Isometric projection seen from (+x, +y, +z)
+const project = (x: number, y: number, z: number): [number, number] => [(x - z) * COS30, (x + z) * SIN30 - y];
+
+function shade(color: number, factor: number): string {
+    const r = Math.round(((color >> 16) & 0xFF) * factor);
+    const g = Math.round(((color >> 8) & 0xFF) * factor);
+    const b = Math.round((color & 0xFF) * factor);
+    return `rgb(${r},${g},${b})`;
+}
+
+/** Lightweight 2D isometric render of a voxel set, used to preview imports before loading them. */
+export const ModelPreview: React.FC<ModelPreviewProps> = ({ data, width = 240, height = 240 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      if (data.length === 0) return;
+
+      let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+      data.forEach(v => {
+          const [sx, sy] = project(v.x, v.y, v.z);
+          minX = Math.min(minX, sx); maxX = Math.max(maxX, sx);
+          minY = Math.min(minY, sy); maxY = Math.max(maxY, sy);
+      });
+      const padding = 1.5;
+      const scale = Math.min(width / (maxX - minX + padding * 2), height / (maxY - minY + padding * 2));
+      const offsetX = width / 2 - ((minX + maxX) / 2) * scale;
+      const offsetY = height / 2 - ((minY + maxY) / 2) * scale;
+
+      const toScreen = (x: number, y: number, z: number): [number, number] => {
+          const [sx, sy] = project(x, y, z);
+          return [sx * scale + offsetX, sy * scale + offsetY];
+      };
+      const face = (points: [number, number][], fill: string) => {
+          ctx.beginPath();
+          ctx.moveTo(points[0][0], points[0][1]);
+          for (let i = 1; i < points.length; i++) ctx.lineTo(points[i][0], points[i][1]);
+          ctx.closePath();
+          ctx.fillStyle = fill;
+          ctx.fill();
+      };
+
+      // Painter's order: farthest from the viewer first
+      const sorted = [...data].sort((a, b) => (a.x + a.y + a.z) - (b.x + b.y + b.z));
+      sorted.forEach(({ x, y, z, color }) => {
+          const h = 0.5;
+          face([toScreen(x - h, y + h, z - h), toScreen(x + h, y + h, z - h), toScreen(x + h, y + h, z + h), toScreen(x - h, y + h, z + h)], shade(color, 1));
+          face([toScreen(x + h, y + h, z - h), toScreen(x + h, y + h, z + h), toScreen(x + h, y - h, z + h), toScreen(x + h, y - h, z - h)], shade(color, 0.8));
+          face([toScreen(x - h, y + h, z + h), toScreen(x + h, y + h, z + h), toScreen(x + h, y - h, z + h), toScreen(x - h, y - h, z + h)], shade(color, 0.65));
+      });
+  }, [data, width, height]);
+
+  return <canvas ref={canvasRef} style={{ width, height }} className="block" />;
+};
@@ -6,18 +6,20 @@
 
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Sparkles, X, Loader2, BrainCircuit, Image as ImageIcon, FileText, Upload } from 'lucide-react';
+import { Sparkles, X, Loader2, BrainCircuit, Image as ImageIcon, FileText, Upload, Shuffle } from 'lucide-react';
+import { Templates, TemplateName } from '../utils/voxelGenerators';
 
 interface PromptModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (prompt: string, imageBase64?: string) => Promise<void>;
+  onSubmit: (prompt: string, imageBase64?: string, template?: TemplateName) => Promise<void>;
 }
 
 export const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSubmit }) => {
   const [prompt, setPrompt] = useState('');
   const [mode, setMode] = useState<'text' | 'image'>('text');
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [template, setTemplate] = useState<TemplateName | null>(null); // null picks one at random
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -29,6 +31,7 @@ export const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSub
       setError('');
       setIsLoading(false);
       setMode('text');
+      setTemplate(null);
     }
   }, [isOpen]);
 
@@ -69,7 +72,7 @@ export const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSub
       // If image mode, we might pass a default prompt if the user didn't type one
       const finalPrompt = prompt.trim() || (mode === 'image' ? "Solve this problem step-by-step" : "");
       
-      await onSubmit(finalPrompt, selectedImage || undefined);
+      await onSubmit(finalPrompt, selectedImage || undefined, template || undefined);
       
       setPrompt('');
       setSelectedImage(null);
@@ -179,6 +182,34 @@ export const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSub
                 </div>
             )}
 
+            <div className="mt-4 space-y-2">
+                <label className="text-sm font-bold text-slate-500 uppercase tracking-wide">Shape</label>
+                <div className="grid grid-cols-4 gap-2">
+                    <TemplateChip
+                        icon={<Shuffle size={18} />}
+                        label="Surprise Me"
+                        selected={template === null}
+                        disabled={isLoading}
+                        onClick={() => setTemplate(null)}
+                    />
+                    {(Object.keys(Templates) as TemplateName[]).map(name => {
+                        const t = Templates[name];
+                        const Icon = t.icon;
+                        return (
+                            <TemplateChip
+                                key={name}
+                                icon={<Icon size={18} />}
+                                label={t.label}
+                                hint={`${t.minSteps}–${t.maxSteps} steps`}
+                                selected={template === name}
+                                disabled={isLoading}
+                                onClick={() => setTemplate(name)}
+                            />
+                        );
+                    })}
+                </div>
+            </div>
+
             {error && (
               <div className="mt-4 p-3 rounded-xl bg-rose-50 text-rose-600 text-sm font-bold flex items-center gap-2 animate-in slide-in-from-top-2">
                 <X size={16} /> {error}
@@ -215,3 +246,18 @@ export const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSub
     </div>
   );
 };
+
+const TemplateChip: React.FC<{ icon: React.ReactNode, label: string, hint?: string, selected: boolean, disabled?: boolean, onClick: () => void }> = ({ icon, label, hint, selected, disabled, onClick }) => {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            disabled={disabled}
+            title={hint}
+            className={`flex flex-col items-center gap-1 py-2 rounded-xl border-2 text-xs font-bold transition-all ${selected ? 'border-indigo-400 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+        >
+            {icon}
+            {label}
+        </button>
+    );
+};
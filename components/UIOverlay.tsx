@@ -6,32 +6,86 @@
 
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppState, SavedModel, LessonStep, ScreenPosition } from '../types';
-import { Box, Bird, BrainCircuit, Hammer, FolderOpen, ChevronUp, FileJson, History, Play, Pause, Info, Loader2, CheckCircle2, AlertTriangle, ArrowUp } from 'lucide-react';
+import { AppState, SavedModel, LessonStep, ScreenPosition, GhostMode } from '../types';
+import { QualitySetting, QUALITY_SETTINGS } from '../services/VoxelEngine';
+import type { VoxelEngine } from '../services/VoxelEngine';
+import { RebuildStyle, REBUILD_PATTERNS, EASING_OPTIONS } from '../utils/rebuildChoreography';
+import { DismantleStrategies, DismantleStyle } from '../utils/dismantleStrategies';
+import { RecordingOptions, RECORDING_FORMATS, RECORDING_SIZES } from '../services/RebuildRecorder';
+import { Templates, TemplateName, LessonTemplate, isTemplateName, resolveTemplateParams, templatesForSteps } from '../utils/voxelGenerators';
+import { StepLabelStyle, STEP_LABEL_STYLES } from '../utils/voxelText';
+import { Box, Bird, BrainCircuit, Hammer, FolderOpen, ChevronUp, FileJson, History, Upload, Pencil, Trash2, Play, Pause, Info, Loader2, CheckCircle2, AlertTriangle, ArrowUp, Undo2, Redo2, Sparkles, Activity, Ghost, Video, Circle, Square, Film, Monitor, Shapes, Minus, Plus, Layers, ChevronRight, Type, Gauge } from 'lucide-react';
 
 interface UIOverlayProps {
   voxelCount: number;
   appState: AppState;
   currentBaseModel: string;
-  lessonSteps: LessonStep[];
+  lessonSteps: LessonStep[]; // Steps of the stack on screen
+  breadcrumbs: string[]; // Lesson name, then the step of each sub-stack opened on the way down
+  onNavigate: (depth: number) => void; // Go back to the stack at this breadcrumb
+  stepProgress: StackProgress[]; // Per step: its sub-stacks rebuilt so far; total is 0 without sub-steps
+  lessonProgress: StackProgress; // Every sub-stack in the lesson
+  onExpandStep: (index: number) => void;
   customBuilds: SavedModel[];
   completedSteps: Set<number>;
+  flyingSteps: Set<number>; // Completed but still animating; labels wait for them to land
   shuffledOptions: number[]; // randomized indices of steps
-  stepCentroids: ScreenPosition[];
+  anchorSource: Pick<VoxelEngine, 'events' | 'getLabelAnchors'> | null; // Pushes label positions; labels move without re-rendering
+  hoveredStep: number | null; // Step of the rubble under the pointer in the scene
+  ghostMode: GhostMode;
+  onToggleGhost: () => void;
+  onStepHover: (index: number | null) => void; // Card under the pointer, outlined in the scene
+  isRubbleSettled: boolean;
+  isRebuildComplete: boolean;
+  mistakes: number; // Wrong answers in this round
   isAutoRotate: boolean;
+  isRecording: boolean;
+  isAutoRecord: boolean; // Recording starts on dismantle and stops once the rebuild completes
+  recordingOptions: RecordingOptions;
+  onRecordingOptionsChange: (options: RecordingOptions) => void;
+  onToggleRecording: () => void;
+  onToggleAutoRecord: () => void;
+  quality: QualitySetting; // Rendering quality; 'auto' may drop to low on slow frames
+  onQualityChange: (quality: QualitySetting) => void;
+  rebuildStyle: RebuildStyle;
+  onRebuildStyleChange: (style: RebuildStyle) => void;
+  dismantleStyle: DismantleStyle;
+  onDismantleStyleChange: (style: DismantleStyle) => void;
+  template?: string; // Template of the loaded lesson, if it came from one
+  templateParams?: Record<string, number>;
+  onTemplateChange: (template: TemplateName, params?: Record<string, number>) => void;
+  stepLabels: StepLabelStyle; // Step labels built into the template's voxels
+  onStepLabelsChange: (labels: StepLabelStyle) => void;
   isInfoVisible: boolean;
   isGenerating: boolean;
   onDismantle: () => void;
   onStepClick: (index: number) => boolean; // returns success/fail
   onNewScene: (type: 'Eagle') => void;
   onSelectCustomBuild: (model: SavedModel) => void;
+  onRenameCustomBuild: (model: SavedModel, name: string) => void;
+  onDeleteCustomBuild: (model: SavedModel) => void;
   onPromptCreate: () => void;
   onShowJson: () => void;
   onImportJson: () => void;
   onToggleRotation: () => void;
   onToggleInfo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
+interface StackProgress {
+  done: number;
+  total: number;
+}
+
+const GHOST_LABELS: Record<GhostMode, string> = {
+    off: 'Ghost: Off',
+    next: 'Ghost: Next Steps',
+    all: 'Ghost: All Layers'
+};
+
 const LOADING_MESSAGES = [
     "Consulting AI...",
     "Extracting logic...",
@@ -45,29 +99,85 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
   appState,
   currentBaseModel,
   lessonSteps,
+  breadcrumbs,
+  onNavigate,
+  stepProgress,
+  lessonProgress,
+  onExpandStep,
   customBuilds,
   completedSteps,
+  flyingSteps,
   shuffledOptions,
-  stepCentroids,
+  anchorSource,
+  hoveredStep,
+  ghostMode,
+  onToggleGhost,
+  onStepHover,
+  isRubbleSettled,
+  isRebuildComplete,
+  mistakes,
   isAutoRotate,
+  isRecording,
+  isAutoRecord,
+  recordingOptions,
+  onRecordingOptionsChange,
+  onToggleRecording,
+  onToggleAutoRecord,
+  quality,
+  onQualityChange,
+  rebuildStyle,
+  onRebuildStyleChange,
+  dismantleStyle,
+  onDismantleStyleChange,
+  template,
+  templateParams,
+  onTemplateChange,
+  stepLabels,
+  onStepLabelsChange,
   isInfoVisible,
   isGenerating,
   onDismantle,
   onStepClick,
   onNewScene,
   onSelectCustomBuild,
+  onRenameCustomBuild,
+  onDeleteCustomBuild,
   onPromptCreate,
   onShowJson,
   onImportJson,
   onToggleRotation,
-  onToggleInfo
+  onToggleInfo,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo
 }) => {
   const isStable = appState === AppState.STABLE;
   const isDismantling = appState === AppState.DISMANTLING;
   const isInteractive = appState === AppState.INTERACTIVE_REBUILD || appState === AppState.REJECTING;
+  // Switching stacks only between rounds
+  const canNavigate = isStable || isRebuildComplete;
   
   const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
   const [errorIndex, setErrorIndex] = useState<number | null>(null);
+  const labelRefs = useRef(new Map<number, HTMLDivElement>());
+
+  // Labels follow the engine's anchors by writing to the DOM directly
+  useEffect(() => {
+    if (!anchorSource) return;
+    return anchorSource.events.on('labelAnchorsChange', changes => {
+        changes.forEach(({ stepIndex, position }) => placeLabel(labelRefs.current.get(stepIndex), position));
+    });
+  }, [anchorSource]);
+
+  const bindLabel = (stepIndex: number) => (el: HTMLDivElement | null) => {
+      if (!el) {
+          labelRefs.current.delete(stepIndex);
+          return;
+      }
+      labelRefs.current.set(stepIndex, el);
+      placeLabel(el, anchorSource?.getLabelAnchors()[stepIndex]);
+  };
 
   useEffect(() => {
     if (isGenerating) {
@@ -93,15 +203,12 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
     <div className="absolute top-0 left-0 w-full h-full pointer-events-none select-none font-sans overflow-hidden">
       
       {/* --- Floating Labels for 3D Layers (Built Steps) --- */}
-      {stepCentroids.map((pos, idx) => {
-          if (!pos.visible || !completedSteps.has(idx)) return null;
-          const step = lessonSteps[idx];
+      {lessonSteps.map((step, idx) => {
+          if (!completedSteps.has(idx) || flyingSteps.has(idx)) return null;
           return (
               <div 
                 key={`label-${idx}`}
-                style={{ 
-                    transform: `translate(${pos.x}px, ${pos.y}px)`,
-                }}
+                ref={bindLabel(idx)}
                 className="absolute z-20 pointer-events-none transition-transform duration-100 ease-out flex items-center"
               >
                   {/* Connection Line */}
@@ -118,6 +225,17 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
                       <span className="text-sm font-bold text-slate-800 leading-tight whitespace-nowrap">
                           {step.text}
                       </span>
+                      {stepProgress[idx]?.total > 0 && (
+                          <button
+                            onClick={() => onExpandStep(idx)}
+                            disabled={!canNavigate}
+                            title="Open sub-steps"
+                            className="pointer-events-auto flex items-center gap-1 px-2 py-0.5 rounded-md bg-slate-100 text-slate-500 text-[10px] font-black hover:bg-indigo-100 hover:text-indigo-600 disabled:opacity-40 disabled:pointer-events-none"
+                          >
+                              <Layers size={12} strokeWidth={3} />
+                              {stepProgress[idx].done}/{stepProgress[idx].total}
+                          </button>
+                      )}
                   </div>
               </div>
           );
@@ -131,16 +249,101 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
                 <DropdownItem onClick={onPromptCreate} icon={<BrainCircuit size={16}/>} label="New Logic Stack" highlight />
                 <div className="h-px bg-slate-100 my-1" />
                 <DropdownItem onClick={() => onNewScene('Eagle')} icon={<Bird size={16}/>} label="Demo: Eagle" />
+                <DropdownItem onClick={onImportJson} icon={<Upload size={16}/>} label="Import Lesson File" />
                 {customBuilds.length > 0 && (
                     <>
                         <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider mt-2">History</div>
                         {customBuilds.map((model, idx) => (
-                            <DropdownItem key={`build-${idx}`} onClick={() => onSelectCustomBuild(model)} icon={<History size={16}/>} label={model.name} truncate />
+                            <HistoryItem
+                                key={model.id || `build-${idx}`}
+                                model={model}
+                                onSelect={onSelectCustomBuild}
+                                onRename={onRenameCustomBuild}
+                                onDelete={onDeleteCustomBuild}
+                            />
                         ))}
                     </>
                 )}
             </DropdownMenu>
 
+            <DropdownMenu icon={<Sparkles size={20} />} label="Animation" color="emerald">
+                <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider">Deconstruct</div>
+                {(Object.keys(DismantleStrategies) as DismantleStyle[]).map(style => (
+                    <DropdownItem key={style} onClick={() => onDismantleStyleChange(style)} icon={<Hammer size={16}/>} label={DismantleStrategies[style].label} highlight={dismantleStyle === style} />
+                ))}
+                <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider mt-2">Rebuild Order</div>
+                {REBUILD_PATTERNS.map(p => (
+                    <DropdownItem key={p.id} onClick={() => onRebuildStyleChange({ ...rebuildStyle, pattern: p.id })} icon={<Sparkles size={16}/>} label={p.label} highlight={rebuildStyle.pattern === p.id} />
+                ))}
+                <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider mt-2">Motion</div>
+                {EASING_OPTIONS.map(e => (
+                    <DropdownItem key={e.id} onClick={() => onRebuildStyleChange({ ...rebuildStyle, easing: e.id })} icon={<Activity size={16}/>} label={e.label} highlight={rebuildStyle.easing === e.id} />
+                ))}
+                <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider mt-2">Graphics</div>
+                {QUALITY_SETTINGS.map(q => (
+                    <DropdownItem key={q.id} onClick={() => onQualityChange(q.id)} icon={<Gauge size={16}/>} label={q.label} highlight={quality === q.id} />
+                ))}
+            </DropdownMenu>
+
+            {isStable && lessonSteps.length > 0 && breadcrumbs.length === 1 && (
+                <DropdownMenu icon={<Shapes size={20} />} label="Shape" color="sky">
+                    <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider">Template</div>
+                    {templatesForSteps(lessonSteps).map(name => {
+                        const t = Templates[name];
+                        const Icon = t.icon;
+                        // Switching keeps the parameters both templates share
+                        return <DropdownItem key={name} onClick={() => onTemplateChange(name, templateParams)} icon={<Icon size={16}/>} label={t.label} highlight={template === name} />;
+                    })}
+                    {isTemplateName(template) && (() => {
+                        const values = resolveTemplateParams(template, lessonSteps.length, templateParams, stepLabels);
+                        return (
+                            <>
+                                <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider mt-2">Parameters</div>
+                                {(Templates[template] as LessonTemplate).params.map(p => {
+                                    // Labels hold some parameters up while they are on
+                                    const min = stepLabels !== 'off' && p.labelMin !== undefined ? Math.max(p.min, p.labelMin) : p.min;
+                                    return (
+                                        <div key={p.key} className="flex items-center justify-between px-3 py-2 text-sm font-bold text-slate-600">
+                                            <span>{p.label}</span>
+                                            <div className="flex items-center gap-2">
+                                                <button onClick={() => onTemplateChange(template, { ...values, [p.key]: values[p.key] - 1 })} disabled={values[p.key] <= min} className="p-1 rounded-lg bg-slate-100 hover:bg-slate-200 disabled:opacity-40">
+                                                    <Minus size={14} strokeWidth={3} />
+                                                </button>
+                                                <span className="w-6 text-center font-mono">{values[p.key]}</span>
+                                                <button onClick={() => onTemplateChange(template, { ...values, [p.key]: values[p.key] + 1 })} disabled={values[p.key] >= p.max} className="p-1 rounded-lg bg-slate-100 hover:bg-slate-200 disabled:opacity-40">
+                                                    <Plus size={14} strokeWidth={3} />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                                <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider mt-2">Block Labels</div>
+                                {STEP_LABEL_STYLES.map(s => (
+                                    <DropdownItem key={s.id} onClick={() => onStepLabelsChange(s.id)} icon={<Type size={16}/>} label={s.label} highlight={stepLabels === s.id} />
+                                ))}
+                            </>
+                        );
+                    })()}
+                </DropdownMenu>
+            )}
+
+            <DropdownMenu icon={<Video size={20} />} label="Record" color="rose">
+                {isRecording ? (
+                    <DropdownItem onClick={onToggleRecording} icon={<Square size={16} fill="currentColor" />} label="Stop & Save" highlight />
+                ) : (
+                    <DropdownItem onClick={onToggleRecording} icon={<Circle size={16} fill="currentColor" />} label="Start Recording" />
+                )}
+                <DropdownItem onClick={onToggleAutoRecord} icon={<Hammer size={16}/>} label="Record Full Rebuild" highlight={isAutoRecord} />
+                <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider mt-2">Format</div>
+                {RECORDING_FORMATS.map(f => (
+                    <DropdownItem key={f.id} onClick={() => onRecordingOptionsChange({ ...recordingOptions, format: f.id })} icon={<Film size={16}/>} label={f.label} highlight={recordingOptions.format === f.id} />
+                ))}
+                <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase tracking-wider mt-2">Size</div>
+                {RECORDING_SIZES.map(s => (
+                    <DropdownItem key={s.id} onClick={() => onRecordingOptionsChange({ ...recordingOptions, size: s.id })} icon={<Monitor size={16}/>} label={s.label} highlight={recordingOptions.size === s.id} />
+                ))}
+            </DropdownMenu>
+
             {voxelCount > 0 && (
                 <div className="flex items-center gap-3 px-4 py-2 bg-white/90 backdrop-blur-sm shadow-sm rounded-xl border border-slate-200 text-slate-500 font-bold w-fit mt-2 animate-in slide-in-from-left-4">
                     <div className="bg-blue-100 p-1.5 rounded-lg text-blue-600">
@@ -155,21 +358,52 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
         </div>
 
         <div className="pointer-events-auto flex gap-2">
+            {isRecording && (
+                <TactileButton onClick={onToggleRecording} color="rose" icon={<Square size={18} fill="currentColor" className="animate-pulse" />} label="Stop Recording" compact />
+            )}
+            <TactileButton onClick={onUndo} disabled={!canUndo} color="slate" icon={<Undo2 size={18} strokeWidth={2.5} />} label="Undo (Ctrl+Z)" compact />
+            <TactileButton onClick={onRedo} disabled={!canRedo} color="slate" icon={<Redo2 size={18} strokeWidth={2.5} />} label="Redo (Ctrl+Shift+Z)" compact />
             <TactileButton onClick={onToggleInfo} color={isInfoVisible ? 'indigo' : 'slate'} icon={<Info size={18} strokeWidth={2.5} />} label="Help" compact />
+            <TactileButton onClick={onToggleGhost} color={ghostMode === 'off' ? 'slate' : 'indigo'} icon={<Ghost size={18} strokeWidth={2.5} />} label={GHOST_LABELS[ghostMode]} compact />
             <TactileButton onClick={onToggleRotation} color={isAutoRotate ? 'sky' : 'slate'} icon={isAutoRotate ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />} label={isAutoRotate ? "Pause" : "Play"} compact />
             <TactileButton onClick={onShowJson} color="slate" icon={<FileJson size={18} strokeWidth={2.5} />} label="Share" />
         </div>
       </div>
 
+      {/* --- Breadcrumbs for sub-stacks --- */}
+      {lessonProgress.total > 0 && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 pointer-events-auto flex items-center gap-1 px-3 py-2 bg-white/90 backdrop-blur-sm shadow-sm rounded-xl border border-slate-200 text-sm font-bold max-w-[40vw] animate-in fade-in slide-in-from-top-4">
+              {breadcrumbs.map((crumb, depth) => {
+                  const isCurrent = depth === breadcrumbs.length - 1;
+                  return (
+                      <React.Fragment key={`crumb-${depth}`}>
+                          {depth > 0 && <ChevronRight size={14} className="text-slate-300 shrink-0" />}
+                          <button
+                            onClick={() => onNavigate(depth)}
+                            disabled={isCurrent || !canNavigate}
+                            className={`truncate px-1.5 py-0.5 rounded-md ${isCurrent ? 'text-slate-800' : 'text-indigo-500 hover:bg-indigo-50 disabled:opacity-40'}`}
+                          >
+                              {crumb}
+                          </button>
+                      </React.Fragment>
+                  );
+              })}
+              <span className="ml-2 pl-3 border-l border-slate-200 flex items-center gap-1 text-xs text-slate-400 whitespace-nowrap" title="Sub-stacks rebuilt">
+                  <Layers size={12} strokeWidth={3} />
+                  {lessonProgress.done}/{lessonProgress.total}
+              </span>
+          </div>
+      )}
+
       {/* --- Concept Cards (Bottom) --- */}
       {(isDismantling || isInteractive) && lessonSteps.length > 0 && (
           <div className="absolute bottom-0 left-0 w-full p-4 z-30 pointer-events-auto flex flex-col items-center justify-end pb-8 bg-gradient-to-t from-slate-900/40 via-slate-900/10 to-transparent">
               
-              {completedSteps.size < lessonSteps.length && (
+              {isRubbleSettled && completedSteps.size < lessonSteps.length && (
                   <div className="bg-white/90 backdrop-blur px-6 py-2 rounded-full border border-indigo-100 shadow-xl text-center mb-4 animate-in slide-in-from-bottom-5">
                        <p className="text-xs text-slate-600 font-extrabold uppercase tracking-widest flex items-center gap-2">
                            <ArrowUp size={14} className="animate-bounce" />
-                           Stack the logic (Bottom Up)
+                           Stack the logic (Foundations First)
                        </p>
                   </div>
               )}
@@ -180,14 +414,18 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
 
                       const step = lessonSteps[stepIndex];
                       const isError = errorIndex === stepIndex;
+                      const isHovered = hoveredStep === stepIndex;
                       
                       return (
                           <button 
                             key={`opt-${stepIndex}`}
                             onClick={() => handleStepSelection(stepIndex)}
+                            onMouseEnter={() => onStepHover(stepIndex)}
+                            onMouseLeave={() => onStepHover(null)}
                             className={`
                                 group relative w-48 h-28 rounded-xl border-b-[6px] text-left transition-all duration-150 active:border-b-0 active:translate-y-[6px]
                                 ${isError ? 'animate-shake bg-rose-500 border-rose-700 text-white' : 'hover:-translate-y-2 hover:shadow-2xl border-black/20'}
+                                ${isHovered && !isError ? '-translate-y-2 shadow-2xl ring-4 ring-white' : ''}
                             `}
                             style={{ 
                                 backgroundColor: isError ? undefined : step.color,
@@ -248,12 +486,15 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
             )}
             
             {/* Victory State */}
-            {(isInteractive || isDismantling) && completedSteps.size === lessonSteps.length && lessonSteps.length > 0 && (
-                <div className="animate-in zoom-in spin-in-1 mb-20">
+            {(isInteractive || isDismantling) && isRebuildComplete && lessonSteps.length > 0 && (
+                <div className="animate-in zoom-in spin-in-1 mb-20 flex flex-col items-center gap-2">
                     <div className="bg-emerald-500 text-white px-8 py-4 rounded-full font-black text-xl shadow-lg flex items-center gap-2 border-b-4 border-emerald-700">
                         <CheckCircle2 size={24} />
                         Logic Stack Complete!
                     </div>
+                    <div className="bg-white/90 px-4 py-1 rounded-full text-xs font-extrabold uppercase tracking-widest text-slate-600 shadow">
+                        {mistakes === 0 ? 'Perfect - no mistakes' : `${mistakes} mistake${mistakes === 1 ? '' : 's'}`}
+                    </div>
                 </div>
             )}
         </div>
@@ -264,6 +505,12 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
 
 // --- Components ---
 
+const placeLabel = (el: HTMLDivElement | undefined, pos: ScreenPosition | undefined) => {
+    if (!el) return;
+    el.style.visibility = pos && pos.visible ? 'visible' : 'hidden';
+    if (pos && pos.visible) el.style.transform = `translate(${pos.x}px, ${pos.y}px)`;
+};
+
 interface TactileButtonProps {
   onClick: () => void;
   disabled?: boolean;
@@ -287,6 +534,7 @@ const TactileButton: React.FC<TactileButtonProps> = ({ onClick, disabled, icon,
     <button
       onClick={onClick}
       disabled={disabled}
+      title={compact ? label : undefined}
       className={`
         group relative flex items-center justify-center gap-2 rounded-xl font-bold text-sm transition-all duration-100
         border-b-[4px] active:border-b-0 active:translate-y-[4px]
@@ -317,7 +565,7 @@ interface DropdownProps {
     icon: React.ReactNode;
     label: string;
     children: React.ReactNode;
-    color: 'indigo' | 'emerald';
+    color: 'indigo' | 'emerald' | 'rose' | 'sky';
 }
 
 const DropdownMenu: React.FC<DropdownProps> = ({ icon, label, children, color }) => {
@@ -334,7 +582,13 @@ const DropdownMenu: React.FC<DropdownProps> = ({ icon, label, children, color })
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
-    const bgClass = color === 'indigo' ? 'bg-indigo-500 hover:bg-indigo-600 border-indigo-800' : 'bg-emerald-500 hover:bg-emerald-600 border-emerald-800';
+    const bgClasses = {
+        indigo: 'bg-indigo-500 hover:bg-indigo-600 border-indigo-800',
+        emerald: 'bg-emerald-500 hover:bg-emerald-600 border-emerald-800',
+        rose: 'bg-rose-500 hover:bg-rose-600 border-rose-800',
+        sky: 'bg-sky-500 hover:bg-sky-600 border-sky-800',
+    };
+    const bgClass = bgClasses[color];
 
     return (
         <div className="relative" ref={menuRef}>
@@ -377,3 +631,42 @@ const DropdownItem: React.FC<{ onClick: () => void, icon: React.ReactNode, label
         </button>
     )
 }
+
+interface HistoryItemProps {
+    model: SavedModel;
+    onSelect: (model: SavedModel) => void;
+    onRename: (model: SavedModel, name: string) => void;
+    onDelete: (model: SavedModel) => void;
+}
+
+const HistoryItem: React.FC<HistoryItemProps> = ({ model, onSelect, onRename, onDelete }) => {
+    // Unsaved builds (e.g. when IndexedDB is unavailable) can only be loaded
+    const isPersisted = !!model.id;
+
+    const handleRename = () => {
+        const name = window.prompt('Rename build', model.name);
+        if (name && name.trim() && name.trim() !== model.name) onRename(model, name.trim());
+    };
+
+    const handleDelete = () => {
+        if (window.confirm(`Delete "${model.name}"?`)) onDelete(model);
+    };
+
+    return (
+        <div className="group flex items-center gap-1">
+            <div className="flex-1 min-w-0">
+                <DropdownItem onClick={() => onSelect(model)} icon={<History size={16}/>} label={model.name} truncate />
+            </div>
+            {isPersisted && (
+                <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={handleRename} title="Rename" className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700">
+                        <Pencil size={14} />
+                    </button>
+                    <button onClick={handleDelete} title="Delete" className="p-1.5 rounded-lg text-slate-400 hover:bg-rose-50 hover:text-rose-600">
+                        <Trash2 size={14} />
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
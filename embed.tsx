@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { ConceptStackEmbed } from './components/ConceptStackEmbed';
+import { SavedModel } from './types';
+import { validateLessonJson } from './utils/lessonValidation';
+
+// <concept-stack> custom element for pages that are not built with React:
+//
+//   <concept-stack src="/lessons/photosynthesis.json" style="display:block; height:360px"></concept-stack>
+//
+// Attributes:
+//   lesson       lesson file contents (JSON), as written by "Share"
+//   src          URL of a lesson file; used when `lesson` is not set
+//   auto-rotate  "false" to hold the camera still
+// Like the app, the controls are styled with Tailwind classes, so the page needs Tailwind loaded.
+
+function parseLesson(json: string): SavedModel {
+    const report = validateLessonJson(json);
+    const model = report.model || report.fixedModel;
+    if (!model) throw new Error(report.issues.map(i => `${i.path}: ${i.message}`).join('; '));
+    return model;
+}
+
+export class ConceptStackElement extends HTMLElement {
+  static observedAttributes = ['lesson', 'src', 'auto-rotate'];
+
+  private root: ReactDOM.Root | null = null;
+  private lesson: SavedModel | null = null;
+  private loadId = 0; // Ignores fetches that finish after a newer source was set
+
+  connectedCallback() {
+      if (!this.root) this.root = ReactDOM.createRoot(this);
+      this.loadLesson();
+  }
+
+  disconnectedCallback() {
+      // Unmounting disposes the engine and its GPU context
+      this.root?.unmount();
+      this.root = null;
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+      if (!this.root || oldValue === newValue) return;
+      if (name === 'auto-rotate') this.render();
+      else this.loadLesson();
+  }
+
+  private async loadLesson() {
+      const id = ++this.loadId;
+      try {
+          const inline = this.getAttribute('lesson');
+          const src = this.getAttribute('src');
+          let json: string | null = inline;
+          if (!json && src) {
+              const response = await fetch(src);
+              if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+              json = await response.text();
+          }
+          if (id !== this.loadId) return;
+          this.lesson = json ? parseLesson(json) : null;
+      } catch (e) {
+          if (id !== this.loadId) return;
+          console.error("Failed to load lesson for <concept-stack>", e);
+          this.lesson = null;
+      }
+      this.render();
+  }
+
+  private render() {
+      if (!this.root) return;
+      if (!this.lesson) {
+          this.root.render(null);
+          return;
+      }
+      this.root.render(
+        <React.StrictMode>
+          <ConceptStackEmbed
+            lesson={this.lesson}
+            autoRotate={this.getAttribute('auto-rotate') !== 'false'}
+            style={{ width: '100%', height: '100%' }}
+          />
+        </React.StrictMode>
+      );
+  }
+}
+
+/** Registers the element; safe to call more than once. */
+export function defineConceptStackElement(tagName = 'concept-stack') {
+    if (!customElements.get(tagName)) customElements.define(tagName, ConceptStackElement);
+}
+
+defineConceptStackElement();
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { SavedModel } from '../types';
+
+const DB_NAME = 'concept-stack';
+const DB_VERSION = 1;
+const STORE_NAME = 'builds';
+
+// Bump this and add an entry to MIGRATIONS whenever the stored SavedModel shape changes.
+export const BUILD_SCHEMA_VERSION = 1;
+
+interface StoredBuild extends SavedModel {
+  id: string;
+  schemaVersion: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Each migration upgrades an entry from version N to N + 1.
+const MIGRATIONS: Record<number, (entry: any) => any> = {
+  // v0: plain SavedModel objects without bookkeeping fields
+  0: (entry) => {
+      const now = Date.now();
+      return {
+          ...entry,
+          id: entry.id || createId(),
+          name: entry.name || 'Untitled Build',
+          data: Array.isArray(entry.data) ? entry.data : [],
+          createdAt: entry.createdAt || now,
+          updatedAt: entry.updatedAt || entry.createdAt || now,
+      };
+  },
+};
+
+function createId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+function migrate(entry: any): StoredBuild {
+    let version = typeof entry.schemaVersion === 'number' ? entry.schemaVersion : 0;
+    let current = entry;
+    while (version < BUILD_SCHEMA_VERSION) {
+        const step = MIGRATIONS[version];
+        if (step) current = step(current);
+        version++;
+    }
+    return { ...current, schemaVersion: BUILD_SCHEMA_VERSION };
+}
+
+function toSavedModel(entry: StoredBuild): SavedModel {
+    const { schemaVersion, ...model } = entry;
+    return model;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Persists custom builds and lessons in IndexedDB so they survive reloads.
+ * Entries are versioned and upgraded on read.
+ */
+export class BuildLibrary {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+      if (this.dbPromise) return this.dbPromise;
+
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+          if (typeof indexedDB === 'undefined') {
+              reject(new Error('IndexedDB is not available'));
+              return;
+          }
+          const request = indexedDB.open(DB_NAME, DB_VERSION);
+          request.onupgradeneeded = () => {
+              const db = request.result;
+              if (!db.objectStoreNames.contains(STORE_NAME)) {
+                  db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+              }
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+      });
+
+      // Allow a retry on the next call if opening failed
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+      return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+      const db = await this.open();
+      return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /** Returns all builds, oldest first, upgrading outdated entries in place. */
+  public async list(): Promise<SavedModel[]> {
+      const store = await this.store('readonly');
+      const entries: any[] = await requestToPromise(store.getAll());
+
+      const builds = entries.map(migrate);
+      const outdated = builds.filter((b, i) => entries[i].schemaVersion !== BUILD_SCHEMA_VERSION);
+      if (outdated.length > 0) {
+          const writable = await this.store('readwrite');
+          await Promise.all(outdated.map(b => requestToPromise(writable.put(b))));
+      }
+
+      return builds
+          .sort((a, b) => a.createdAt - b.createdAt)
+          .map(toSavedModel);
+  }
+
+  public async get(id: string): Promise<SavedModel | null> {
+      const store = await this.store('readonly');
+      const entry = await requestToPromise(store.get(id));
+      return entry ? toSavedModel(migrate(entry)) : null;
+  }
+
+  /** Inserts or updates a build. Returns the stored copy with its id and timestamps. */
+  public async save(model: SavedModel): Promise<SavedModel> {
+      const now = Date.now();
+      const entry: StoredBuild = {
+          ...model,
+          id: model.id || createId(),
+          createdAt: model.createdAt || now,
+          updatedAt: now,
+          schemaVersion: BUILD_SCHEMA_VERSION,
+      };
+      const store = await this.store('readwrite');
+      await requestToPromise(store.put(entry));
+      return toSavedModel(entry);
+  }
+
+  public async rename(id: string, name: string): Promise<SavedModel | null> {
+      const existing = await this.get(id);
+      if (!existing) return null;
+      return this.save({ ...existing, name });
+  }
+
+  public async remove(id: string): Promise<void> {
+      const store = await this.store('readwrite');
+      await requestToPromise(store.delete(id));
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { VoxelEngine } from './VoxelEngine';
+import { GifEncoder } from '../utils/gifEncoder';
+
+export type RecordingFormat = 'webm' | 'gif';
+
+export type RecordingSize = 'window' | '720p' | '480p';
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  size: RecordingSize;
+}
+
+export const DEFAULT_RECORDING_OPTIONS: RecordingOptions = { format: 'webm', size: 'window' };
+
+export const RECORDING_FORMATS: { id: RecordingFormat; label: string }[] = [
+  { id: 'webm', label: 'Video (WebM)' },
+  { id: 'gif', label: 'Animated GIF' },
+];
+
+export const RECORDING_SIZES: { id: RecordingSize; label: string; width?: number; height?: number }[] = [
+  { id: 'window', label: 'Window Size' },
+  { id: '720p', label: '1280 × 720', width: 1280, height: 720 },
+  { id: '480p', label: '854 × 480', width: 854, height: 480 },
+];
+
+const VIDEO_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// GIFs are encoded on the main thread while recording, so keep them small
+const GIF_FPS = 15;
+const GIF_MAX_WIDTH = 640;
+
+export class RecordingError extends Error {
+  constructor(message: string) {
+      super(message);
+      this.name = 'RecordingError';
+  }
+}
+
+/**
+ * Captures the engine's canvas. Every rendered frame is copied onto a canvas of the
+ * chosen size (cropped to fill it), which feeds either a MediaRecorder or the GIF encoder.
+ */
+export class RebuildRecorder {
+  private frame: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private unsubscribe: (() => void) | null = null;
+
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+
+  private gif: GifEncoder | null = null;
+  // A GIF frame is written once the next one arrives, so it can carry its real duration
+  private pendingPixels: Uint8ClampedArray | null = null;
+  private pendingTime = 0;
+
+  constructor(private engine: VoxelEngine, private options: RecordingOptions) {
+      this.frame = document.createElement('canvas');
+      const context = this.frame.getContext('2d', { willReadFrequently: options.format === 'gif' });
+      if (!context) throw new RecordingError('Canvas 2D is not available in this browser.');
+      this.context = context;
+  }
+
+  get isRecording() { return this.unsubscribe !== null; }
+
+  get fileExtension() { return this.options.format; }
+
+  public start() {
+      if (this.isRecording) return;
+      const source = this.engine.getCanvas();
+      const { width, height } = this.outputSize(source.width, source.height);
+      this.frame.width = width;
+      this.frame.height = height;
+
+      if (this.options.format === 'webm') {
+          if (typeof MediaRecorder === 'undefined' || typeof this.frame.captureStream !== 'function') {
+              throw new RecordingError('Video recording is not supported in this browser.');
+          }
+          const mimeType = VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+          if (!mimeType) throw new RecordingError('This browser cannot record WebM video.');
+
+          this.chunks = [];
+          this.mediaRecorder = new MediaRecorder(this.frame.captureStream(VIDEO_FPS), { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+          this.mediaRecorder.ondataavailable = e => {
+              if (e.data.size > 0) this.chunks.push(e.data);
+          };
+          this.mediaRecorder.start(1000);
+      } else {
+          this.gif = new GifEncoder(width, height);
+          this.pendingPixels = null;
+      }
+
+      this.unsubscribe = this.engine.events.on('render', canvas => this.capture(canvas));
+  }
+
+  /** Stops capturing and resolves with the finished file. */
+  public stop(): Promise<Blob> {
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+
+      if (this.gif) {
+          const gif = this.gif;
+          this.gif = null;
+          if (this.pendingPixels) gif.addFrame(this.pendingPixels, 1000 / GIF_FPS);
+          this.pendingPixels = null;
+          if (gif.frames === 0) return Promise.reject(new RecordingError('Nothing was recorded.'));
+          return Promise.resolve(new Blob([gif.finish()], { type: 'image/gif' }));
+      }
+
+      const recorder = this.mediaRecorder;
+      this.mediaRecorder = null;
+      if (!recorder) return Promise.reject(new RecordingError('Nothing was recorded.'));
+      return new Promise((resolve, reject) => {
+          recorder.onstop = () => {
+              recorder.stream.getTracks().forEach(track => track.stop());
+              if (this.chunks.length === 0) reject(new RecordingError('Nothing was recorded.'));
+              else resolve(new Blob(this.chunks, { type: 'video/webm' }));
+              this.chunks = [];
+          };
+          recorder.stop();
+      });
+  }
+
+  private outputSize(sourceWidth: number, sourceHeight: number) {
+      const preset = RECORDING_SIZES.find(s => s.id === this.options.size);
+      let width = preset?.width ?? sourceWidth;
+      let height = preset?.height ?? sourceHeight;
+      if (this.options.format === 'gif' && width > GIF_MAX_WIDTH) {
+          height = Math.round(height * GIF_MAX_WIDTH / width);
+          width = GIF_MAX_WIDTH;
+      }
+      // Video encoders want even dimensions
+      return { width: Math.max(2, width & ~1), height: Math.max(2, height & ~1) };
+  }
+
+  private capture(canvas: HTMLCanvasElement) {
+      const now = performance.now();
+      if (this.gif && this.pendingPixels && now - this.pendingTime < 1000 / GIF_FPS) return;
+
+      // Crop the source to the output's aspect ratio, centred
+      const { width, height } = this.frame;
+      const scale = Math.min(canvas.width / width, canvas.height / height);
+      const sw = width * scale, sh = height * scale;
+      this.context.drawImage(canvas, (canvas.width - sw) / 2, (canvas.height - sh) / 2, sw, sh, 0, 0, width, height);
+
+      if (this.gif) {
+          if (this.pendingPixels) this.gif.addFrame(this.pendingPixels, now - this.pendingTime);
+          this.pendingPixels = this.context.getImageData(0, 0, width, height).data;
+          this.pendingTime = now;
+      }
+  }
+}
@@ -7,8 +7,50 @@
 
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import { AppState, SimulationVoxel, RebuildTarget, VoxelData, ScreenPosition } from '../types';
+import { AppState, VoxelData, ScreenPosition, VoxelPick, LabelAnchor } from '../types';
 import { CONFIG } from '../utils/voxelConstants';
+import { randomSeed } from '../utils/random';
+import { RebuildStyle } from '../utils/rebuildChoreography';
+import { DismantleStrategy } from '../utils/dismantleStrategies';
+import { greedyMesh, toWatertightPolygons, polygonsToArrays, quadCorners, quadNormal } from '../utils/voxelMesher';
+import { TypedEmitter } from '../utils/eventEmitter';
+import { VoxelSimulation, SimulationEvents } from './VoxelSimulation';
+
+export type VoxelEngineEvents = SimulationEvents & {
+  countChange: number;
+  hover: VoxelPick | null; // Voxel under the pointer changed
+  select: VoxelPick; // Voxel clicked without dragging
+  render: HTMLCanvasElement; // A frame was drawn; the canvas can be copied until the handler returns
+  labelAnchorsChange: LabelAnchor[]; // Only the step labels whose screen position changed
+};
+
+const SIMULATION_EVENTS: (keyof SimulationEvents)[] = ['stateChange', 'layerStarted', 'layerLanded', 'allRebuilt', 'rejectionFinished', 'dismantleSettled'];
+
+// Pointer travel (px) between press and release that still counts as a click rather than an orbit drag
+const CLICK_TOLERANCE = 5;
+
+// Label moves smaller than this (px) are not published
+const ANCHOR_TOLERANCE = 0.5;
+
+// Longest frame gap simulated at once, so a backgrounded tab doesn't replay seconds of physics
+const MAX_FRAME_SECONDS = 0.25;
+
+// 'low' drops shadows and renders fewer pixels, for machines that can't keep up
+export type QualityProfile = 'high' | 'low';
+// 'auto' starts high and drops to low when frames are slow
+export type QualitySetting = QualityProfile | 'auto';
+
+export const QUALITY_SETTINGS: { id: QualitySetting; label: string }[] = [
+  { id: 'auto', label: 'Auto' },
+  { id: 'high', label: 'High' },
+  { id: 'low', label: 'Low' },
+];
+
+const MAX_PIXEL_RATIO = 2;
+const LOW_PIXEL_RATIO = 0.75;
+// Averaged frame time above this for SLOW_FRAME_GRACE_SECONDS switches 'auto' quality to 'low'
+const SLOW_FRAME_SECONDS = 1 / 30;
+const SLOW_FRAME_GRACE_SECONDS = 3;
 
 export class VoxelEngine {
   private container: HTMLElement;
@@ -16,60 +58,116 @@ export class VoxelEngine {
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
   private controls: OrbitControls;
+  private dirLight: THREE.DirectionalLight | null = null;
   private instanceMesh: THREE.InstancedMesh | null = null;
+  private staticMesh: THREE.Mesh | null = null; // Hidden faces culled, only used while the model is assembled
   private dummy = new THREE.Object3D();
+
+  // Rebuild hints: translucent copies of layers at their original positions, and an outline of one layer
+  private ghostMesh: THREE.InstancedMesh | null = null;
+  private ghostVoxels: VoxelData[] = [];
+  private ghostSteps = new Set<number>();
+  private outline: THREE.LineSegments | null = null;
+  private highlightedStep: number | null = null;
   
-  private voxels: SimulationVoxel[] = [];
-  private rebuildTargets: RebuildTarget[] = [];
-  
-  // Track which voxels are currently moving to their target
-  private activeRebuildIndices: Set<number> = new Set();
-  private rejectingIndices: Set<number> = new Set();
+  private simulation: VoxelSimulation;
+  private lastFrameTime = 0;
+  private accumulator = 0;
   
-  private state: AppState = AppState.STABLE;
-  private onStateChange: (state: AppState) => void;
-  private onCountChange: (count: number) => void;
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+  private pointerDown: { x: number, y: number } | null = null;
+  private hoveredId: number | null = null;
+  private staticIndex = new Map<string, number>(); // Original position -> voxel, to pick on the static mesh
+
+  private centroids: (THREE.Vector3 | null)[] = []; // World centre of each step, valid for centroidRevision
+  private centroidRevision = -1;
+  private labelAnchors: ScreenPosition[] = [];
+  private projected = new THREE.Vector3();
+  private viewWidth: number;
+  private viewHeight: number;
+
+  public readonly events = new TypedEmitter<VoxelEngineEvents>();
   private animationId: number = 0;
+  private resizeObserver: ResizeObserver | null = null;
 
-  constructor(
-    container: HTMLElement, 
-    onStateChange: (state: AppState) => void,
-    onCountChange: (count: number) => void
-  ) {
+  private contextLost = false;
+  private quality: QualityProfile = 'high';
+  private isQualityAuto = true;
+  private frameTimeAverage = 1 / 60;
+  private slowSeconds = 0;
+
+  constructor(container: HTMLElement) {
     this.container = container;
-    this.onStateChange = onStateChange;
-    this.onCountChange = onCountChange;
+    this.viewWidth = container.clientWidth;
+    this.viewHeight = container.clientHeight;
+    this.simulation = new VoxelSimulation();
+    SIMULATION_EVENTS.forEach(name => this.simulation.events.on(name, (payload: any) => this.events.emit(name, payload)));
 
     // Init Three.js
     this.scene = new THREE.Scene();
     this.scene.background = new THREE.Color(CONFIG.BG_COLOR);
     this.scene.fog = new THREE.Fog(CONFIG.BG_COLOR, 60, 140);
 
-    this.camera = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 1000);
+    this.camera = new THREE.PerspectiveCamera(45, this.viewWidth / Math.max(1, this.viewHeight), 0.1, 1000);
     this.camera.position.set(30, 30, 60);
 
     this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.renderer.setSize(this.viewWidth, this.viewHeight);
     this.renderer.shadowMap.enabled = true;
     this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    this.renderer.domElement.style.display = 'block';
     container.appendChild(this.renderer.domElement);
 
+    // Follow the container rather than the window, so the scene also fits sidebars and cards
+    this.handleResize = this.handleResize.bind(this);
+    if (typeof ResizeObserver !== 'undefined') {
+        this.resizeObserver = new ResizeObserver(this.handleResize);
+        this.resizeObserver.observe(container);
+    } else {
+        window.addEventListener('resize', this.handleResize);
+    }
+
     this.controls = new OrbitControls(this.camera, this.renderer.domElement);
     this.controls.enableDamping = true;
     this.controls.autoRotate = true;
     this.controls.autoRotateSpeed = 0.5;
     this.controls.target.set(0, 10, 0);
 
+    this.createEnvironment();
+    this.applyQuality();
+
+    // Context loss (backgrounded laptops, too many canvases); restored by rebuilding the scene
+    this.handleContextLost = this.handleContextLost.bind(this);
+    this.handleContextRestored = this.handleContextRestored.bind(this);
+    this.renderer.domElement.addEventListener('webglcontextlost', this.handleContextLost);
+    this.renderer.domElement.addEventListener('webglcontextrestored', this.handleContextRestored);
+
+    // Picking
+    this.handlePointerMove = this.handlePointerMove.bind(this);
+    this.handlePointerDown = this.handlePointerDown.bind(this);
+    this.handlePointerUp = this.handlePointerUp.bind(this);
+    this.handlePointerLeave = this.handlePointerLeave.bind(this);
+    this.renderer.domElement.addEventListener('pointermove', this.handlePointerMove);
+    this.renderer.domElement.addEventListener('pointerdown', this.handlePointerDown);
+    this.renderer.domElement.addEventListener('pointerup', this.handlePointerUp);
+    this.renderer.domElement.addEventListener('pointerleave', this.handlePointerLeave);
+
+    this.animate = this.animate.bind(this);
+    this.animate();
+  }
+
+  private createEnvironment() {
     // Lights
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.7);
     this.scene.add(ambientLight);
 
-    const dirLight = new THREE.DirectionalLight(0xffffff, 1.5);
-    dirLight.position.set(50, 80, 30);
-    dirLight.castShadow = true;
-    dirLight.shadow.mapSize.width = 2048;
-    dirLight.shadow.mapSize.height = 2048;
-    this.scene.add(dirLight);
+    this.dirLight = new THREE.DirectionalLight(0xffffff, 1.5);
+    this.dirLight.position.set(50, 80, 30);
+    this.dirLight.castShadow = true;
+    this.dirLight.shadow.mapSize.width = 2048;
+    this.dirLight.shadow.mapSize.height = 2048;
+    this.scene.add(this.dirLight);
 
     // Floor
     const planeMat = new THREE.MeshStandardMaterial({ color: 0xe2e8f0, roughness: 1 });
@@ -78,19 +176,72 @@ export class VoxelEngine {
     floor.position.y = CONFIG.FLOOR_Y;
     floor.receiveShadow = true;
     this.scene.add(floor);
+  }
 
-    this.animate = this.animate.bind(this);
+  private applyQuality() {
+    const isHigh = this.quality === 'high';
+    this.renderer.setPixelRatio(isHigh ? Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO) : LOW_PIXEL_RATIO);
+    this.renderer.shadowMap.enabled = isHigh;
+    if (this.dirLight) this.dirLight.castShadow = isHigh;
+    // Shaders are compiled with or without shadow support
+    this.scene.traverse((object: any) => {
+        if (object.material) (Array.isArray(object.material) ? object.material : [object.material]).forEach((m: any) => m.needsUpdate = true);
+    });
+  }
+
+  public setQuality(profile: QualitySetting) {
+    this.isQualityAuto = profile === 'auto';
+    this.slowSeconds = 0;
+    const next = profile === 'auto' ? 'high' : profile;
+    if (next === this.quality) return;
+    this.quality = next;
+    this.applyQuality();
+  }
+
+  // Switches down once; switching back up is left to setQuality so the profile doesn't flicker
+  private monitorFrameTime(elapsed: number) {
+    if (!this.isQualityAuto || this.quality === 'low' || elapsed <= 0 || elapsed > MAX_FRAME_SECONDS) return;
+    // Copying frames for a recording slows them down; that says nothing about the GPU
+    if (this.events.hasListeners('render')) {
+        this.slowSeconds = 0;
+        return;
+    }
+    this.frameTimeAverage += (elapsed - this.frameTimeAverage) * 0.05;
+    this.slowSeconds = this.frameTimeAverage > SLOW_FRAME_SECONDS ? this.slowSeconds + elapsed : 0;
+    if (this.slowSeconds >= SLOW_FRAME_GRACE_SECONDS) {
+        this.quality = 'low';
+        this.applyQuality();
+    }
+  }
+
+  private handleContextLost(e: Event) {
+    // Without preventDefault the browser never offers the context back
+    e.preventDefault();
+    this.contextLost = true;
+    cancelAnimationFrame(this.animationId);
+  }
+
+  private handleContextRestored() {
+    // Every GPU resource is gone; rebuild meshes, materials, lights and the shadow map from the simulation
+    const ghostSteps = Array.from(this.ghostSteps);
+    const highlightedStep = this.highlightedStep;
+    this.disposeScene();
+    this.createEnvironment();
+    this.createVoxels();
+    this.setGhostSteps(ghostSteps);
+    this.setHighlightedStep(highlightedStep);
+    this.applyQuality();
+
+    this.contextLost = false;
+    this.lastFrameTime = 0;
     this.animate();
   }
 
-  public loadInitialModel(data: VoxelData[]) {
-    this.createVoxels(data);
-    this.onCountChange(this.voxels.length);
-    this.state = AppState.STABLE;
-    this.onStateChange(this.state);
-    this.activeRebuildIndices.clear();
-    this.rejectingIndices.clear();
-    this.rebuildTargets = [];
+  public loadInitialModel(data: VoxelData[], seed: number = randomSeed()) {
+    this.simulation.load(data, seed);
+    this.accumulator = 0;
+    this.createVoxels();
+    this.events.emit('countChange', this.simulation.getVoxels().length);
     
     // Calculate bounding box to center camera
     let minY = Infinity, maxY = -Infinity;
@@ -104,273 +255,366 @@ export class VoxelEngine {
     }
   }
 
-  private createVoxels(data: VoxelData[]) {
-    if (this.instanceMesh) {
-      this.scene.remove(this.instanceMesh);
-      this.instanceMesh.geometry.dispose();
-      if (Array.isArray(this.instanceMesh.material)) {
-          this.instanceMesh.material.forEach(m => m.dispose());
-      } else {
-          this.instanceMesh.material.dispose();
-      }
-    }
-
-    this.voxels = data.map((v, i) => {
-        const c = new THREE.Color(v.color);
-        // Slight color variance for texture
-        c.offsetHSL(0, 0, (Math.random() * 0.05) - 0.025);
-        
-        return {
-            id: i,
-            x: v.x, y: v.y, z: v.z,
-            originalX: v.x, originalY: v.y, originalZ: v.z,
-            color: c,
-            stepIndex: v.stepIndex !== undefined ? v.stepIndex : -1,
-            vx: 0, vy: 0, vz: 0, rx: 0, ry: 0, rz: 0,
-            rvx: 0, rvy: 0, rvz: 0
-        };
-    });
+  private createVoxels() {
+    if (this.instanceMesh) this.disposeMesh(this.instanceMesh);
+    if (this.staticMesh) this.disposeMesh(this.staticMesh);
+    this.staticMesh = null;
+    this.staticIndex.clear();
+    this.setHovered(null);
+    if (this.ghostMesh) this.disposeMesh(this.ghostMesh);
+    this.ghostMesh = null;
+    this.ghostSteps.clear();
+    this.setHighlightedStep(null);
 
     const geometry = new THREE.BoxGeometry(CONFIG.VOXEL_SIZE - 0.05, CONFIG.VOXEL_SIZE - 0.05, CONFIG.VOXEL_SIZE - 0.05);
     const material = new THREE.MeshStandardMaterial({ roughness: 0.8, metalness: 0.1 });
-    this.instanceMesh = new THREE.InstancedMesh(geometry, material, this.voxels.length);
+    this.instanceMesh = new THREE.InstancedMesh(geometry, material, this.simulation.getVoxels().length);
     this.instanceMesh.castShadow = true;
     this.instanceMesh.receiveShadow = true;
     this.scene.add(this.instanceMesh);
 
+    if (this.simulation.getVoxels().length >= CONFIG.STATIC_MESH_THRESHOLD) {
+        this.staticMesh = this.createStaticMesh();
+        this.scene.add(this.staticMesh);
+        this.simulation.getVoxels().forEach((v, i) => this.staticIndex.set(`${v.originalX},${v.originalY},${v.originalZ}`, i));
+    }
+
+    this.createGhosts();
     this.draw();
+    this.updateRenderMode();
+  }
+
+  private createGhosts() {
+    this.ghostVoxels = this.simulation.getVoxelData().filter(v => v.stepIndex! >= 0);
+    if (this.ghostVoxels.length === 0) return;
+
+    const geometry = new THREE.BoxGeometry(CONFIG.VOXEL_SIZE - 0.05, CONFIG.VOXEL_SIZE - 0.05, CONFIG.VOXEL_SIZE - 0.05);
+    const material = new THREE.MeshStandardMaterial({ transparent: true, opacity: 0.2, depthWrite: false, roughness: 1 });
+    this.ghostMesh = new THREE.InstancedMesh(geometry, material, this.ghostVoxels.length);
+    this.ghostVoxels.forEach((v, i) => this.ghostMesh!.setColorAt(i, new THREE.Color(v.color)));
+    this.scene.add(this.ghostMesh);
+    this.updateGhosts();
+  }
+
+  private updateGhosts() {
+    if (!this.ghostMesh) return;
+    this.ghostVoxels.forEach((v, i) => {
+        this.dummy.position.set(v.x, v.y, v.z);
+        this.dummy.rotation.set(0, 0, 0);
+        // Hidden ghosts collapse to nothing instead of being removed
+        this.dummy.scale.setScalar(this.ghostSteps.has(v.stepIndex!) ? 1 : 0);
+        this.dummy.updateMatrix();
+        this.ghostMesh!.setMatrixAt(i, this.dummy.matrix);
+    });
+    this.ghostMesh.instanceMatrix.needsUpdate = true;
+    if (this.ghostMesh.instanceColor) this.ghostMesh.instanceColor.needsUpdate = true;
+  }
+
+  /** Shows translucent ghosts of these steps at their original positions while the model is apart. */
+  public setGhostSteps(steps: number[]) {
+    this.ghostSteps = new Set(steps);
+    this.updateGhosts();
+  }
+
+  /** Outlines one step's target slot, e.g. while its card is hovered. */
+  public setHighlightedStep(stepIndex: number | null) {
+    if (stepIndex === this.highlightedStep) return;
+    this.highlightedStep = stepIndex;
+    if (this.outline) this.disposeMesh(this.outline);
+    this.outline = null;
+    if (stepIndex === null) return;
+
+    const voxels = this.simulation.getVoxelData().filter(v => v.stepIndex === stepIndex);
+    if (voxels.length === 0) return;
+
+    // Edges of the merged faces; nudged off the surface so they don't z-fight with landed voxels
+    const positions: number[] = [];
+    greedyMesh(voxels, () => 'outline').forEach(q => {
+        const n = quadNormal(q);
+        const corners = quadCorners(q).map(c => [c[0] + n[0] * 0.02, c[1] + n[1] * 0.02, c[2] + n[2] * 0.02]);
+        for (let c = 0; c < 4; c++) positions.push(...corners[c], ...corners[(c + 1) % 4]);
+    });
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions.map(p => p * CONFIG.VOXEL_SIZE), 3));
+    const material = new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.9, depthTest: false });
+    this.outline = new THREE.LineSegments(geometry, material);
+    this.outline.renderOrder = 1; // Drawn over the rubble
+    this.scene.add(this.outline);
+    this.updateRenderMode();
+  }
+
+  private createStaticMesh(): THREE.Mesh {
+    const polygons = toWatertightPolygons(greedyMesh(this.simulation.getVoxelData()));
+    const arrays = polygonsToArrays(polygons, CONFIG.VOXEL_SIZE);
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(arrays.positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(arrays.normals, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(arrays.colors, 3));
+    geometry.setIndex(arrays.indices);
+
+    const material = new THREE.MeshStandardMaterial({ roughness: 0.8, metalness: 0.1, vertexColors: true });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    return mesh;
+  }
+
+  private disposeMesh(mesh: THREE.Mesh | THREE.LineSegments) {
+    this.scene.remove(mesh);
+    mesh.geometry.dispose();
+    if (Array.isArray(mesh.material)) {
+        mesh.material.forEach(m => m.dispose());
+    } else {
+        mesh.material.dispose();
+    }
+  }
+
+  /** Large models use the merged mesh while assembled and switch to instances while voxels move. */
+  private updateRenderMode(): boolean {
+    const useStatic = !!this.staticMesh && this.simulation.isAssembled();
+    if (this.staticMesh) this.staticMesh.visible = useStatic;
+    if (this.instanceMesh) this.instanceMesh.visible = !useStatic;
+    // Hints only make sense while the model is apart
+    const isApart = this.simulation.getState() !== AppState.STABLE;
+    if (this.ghostMesh) this.ghostMesh.visible = isApart;
+    if (this.outline) this.outline.visible = isApart;
+    return useStatic;
   }
 
   private draw() {
     if (!this.instanceMesh) return;
-    this.voxels.forEach((v, i) => {
+    this.simulation.getVoxels().forEach((v, i) => {
         this.dummy.position.set(v.x, v.y, v.z);
         this.dummy.rotation.set(v.rx, v.ry, v.rz);
+        this.dummy.scale.setScalar(v.scale);
         this.dummy.updateMatrix();
         this.instanceMesh!.setMatrixAt(i, this.dummy.matrix);
         this.instanceMesh!.setColorAt(i, v.color);
     });
     this.instanceMesh.instanceMatrix.needsUpdate = true;
     if (this.instanceMesh.instanceColor) this.instanceMesh.instanceColor.needsUpdate = true;
+    // Instances moved; let the next raycast recompute the bounds
+    this.instanceMesh.boundingSphere = null;
   }
 
-  public dismantle() {
-    if (this.state !== AppState.STABLE) return;
-    this.state = AppState.DISMANTLING;
-    this.onStateChange(this.state);
-    this.activeRebuildIndices.clear();
-    this.rejectingIndices.clear();
-
-    // Prepare rebuild targets from ORIGINAL positions
-    this.rebuildTargets = this.voxels.map(v => ({
-        x: v.originalX, y: v.originalY, z: v.originalZ,
-        delay: 0,
-        isRubble: false
-    }));
-
-    this.voxels.forEach(v => {
-        // Explode outward slightly
-        v.vx = (Math.random() - 0.5) * 2;
-        v.vy = Math.random() * 1.5 + 0.5; // Upward pop
-        v.vz = (Math.random() - 0.5) * 2;
-        
-        v.rvx = (Math.random() - 0.5) * 0.4;
-        v.rvy = (Math.random() - 0.5) * 0.4;
-        v.rvz = (Math.random() - 0.5) * 0.4;
-    });
+  /** Returns the voxel under a point in client coordinates, or null. */
+  public pickAt(clientX: number, clientY: number): VoxelPick | null {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    this.pointer.set(((clientX - rect.left) / rect.width) * 2 - 1, -((clientY - rect.top) / rect.height) * 2 + 1);
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+
+    const voxels = this.simulation.getVoxels();
+    let index: number | undefined;
+    if (this.staticMesh && this.staticMesh.visible) {
+        const hit = this.raycaster.intersectObject(this.staticMesh, false)[0];
+        if (hit && hit.face) {
+            // Step half a voxel back through the face to land inside the voxel that owns it
+            const p = hit.point.clone().addScaledVector(hit.face.normal, -0.5 * CONFIG.VOXEL_SIZE);
+            index = this.staticIndex.get(`${Math.round(p.x)},${Math.round(p.y)},${Math.round(p.z)}`);
+        }
+    } else if (this.instanceMesh) {
+        const hit = this.raycaster.intersectObject(this.instanceMesh, false)[0];
+        if (hit) index = hit.instanceId;
+    }
+
+    if (index === undefined || !voxels[index]) return null;
+    return { voxel: voxels[index], stepIndex: voxels[index].stepIndex };
+  }
+
+  private setHovered(pick: VoxelPick | null) {
+    const id = pick ? pick.voxel.id : null;
+    if (id === this.hoveredId) return;
+    this.hoveredId = id;
+    this.events.emit('hover', pick);
+  }
+
+  private handlePointerMove(e: PointerEvent) {
+    // Skip raycasts while orbiting
+    if (this.pointerDown && e.buttons !== 0) return;
+    this.setHovered(this.pickAt(e.clientX, e.clientY));
+  }
+
+  private handlePointerDown(e: PointerEvent) {
+    this.pointerDown = { x: e.clientX, y: e.clientY };
+  }
+
+  private handlePointerUp(e: PointerEvent) {
+    const down = this.pointerDown;
+    this.pointerDown = null;
+    if (!down || Math.hypot(e.clientX - down.x, e.clientY - down.y) > CLICK_TOLERANCE) return;
+    const pick = this.pickAt(e.clientX, e.clientY);
+    if (pick) this.events.emit('select', pick);
+  }
+
+  private handlePointerLeave() {
+    this.pointerDown = null;
+    this.setHovered(null);
+  }
+
+  public dismantle(strategy?: DismantleStrategy) {
+    this.simulation.dismantle(strategy);
   }
 
   public rebuildLayer(stepIndex: number) {
-      // FORCE STATE CHANGE to wake up physics
-      this.state = AppState.INTERACTIVE_REBUILD;
-      this.onStateChange(this.state);
-
-      let found = 0;
-      this.voxels.forEach((v, i) => {
-          if (v.stepIndex === stepIndex) {
-              this.activeRebuildIndices.add(i);
-              this.rejectingIndices.delete(i);
-              found++;
-          }
-      });
-      console.log(`Rebuilding step ${stepIndex}, found ${found} voxels`);
-      return found > 0;
+      return this.simulation.rebuildLayer(stepIndex);
   }
 
   public rejectLayer(stepIndex: number) {
-     this.state = AppState.REJECTING;
-     this.onStateChange(this.state);
-     
-     this.voxels.forEach((v, i) => {
-         if (v.stepIndex === stepIndex) {
-             this.rejectingIndices.add(i);
-             // Jiggle
-             v.vy = 0.5;
-             v.vx = (Math.random() - 0.5) * 0.5;
-             v.vz = (Math.random() - 0.5) * 0.5;
-         }
-     });
-
-     setTimeout(() => {
-         // Return to manual rebuild state after rejection animation
-         if (this.state === AppState.REJECTING) {
-             this.state = AppState.INTERACTIVE_REBUILD;
-             this.onStateChange(this.state);
-             this.rejectingIndices.clear();
-         }
-     }, 800);
+     this.simulation.rejectLayer(stepIndex);
+  }
+
+  public setRebuildStyle(style: RebuildStyle) {
+      this.simulation.setRebuildStyle(style);
   }
   
-  public getStepCentroids(stepCount: number): ScreenPosition[] {
-      const centroids: ScreenPosition[] = [];
-      const sums: {[key: number]: {x: number, y: number, z: number, count: number}} = {};
-      
-      this.voxels.forEach(v => {
-          if (v.stepIndex >= 0) {
-              if (!sums[v.stepIndex]) sums[v.stepIndex] = {x:0, y:0, z:0, count:0};
-              sums[v.stepIndex].x += v.x;
-              sums[v.stepIndex].y += v.y;
-              sums[v.stepIndex].z += v.z;
-              sums[v.stepIndex].count++;
+  /** Latest screen anchor of each step's label, indexed by step. */
+  public getLabelAnchors(): readonly ScreenPosition[] {
+      return this.labelAnchors;
+  }
+
+  // World centroids only change when voxels move; the projection changes with the camera
+  private updateLabelAnchors() {
+      const revision = this.simulation.getRevision();
+      if (revision !== this.centroidRevision) {
+          this.centroidRevision = revision;
+          this.centroids = this.computeStepCentroids();
+      }
+
+      const changes: LabelAnchor[] = [];
+      this.centroids.forEach((centroid, i) => {
+          let next: ScreenPosition = { x: 0, y: 0, visible: false };
+          if (centroid) {
+              const vec = this.projected.copy(centroid).project(this.camera);
+              next = {
+                  x: (vec.x * .5 + .5) * this.viewWidth,
+                  y: (-(vec.y * .5) + .5) * this.viewHeight,
+                  visible: vec.z < 1 && Math.abs(vec.x) < 1.1 && Math.abs(vec.y) < 1.1
+              };
           }
+          const prev = this.labelAnchors[i];
+          if (prev && prev.visible === next.visible &&
+              (!next.visible || (Math.abs(prev.x - next.x) < ANCHOR_TOLERANCE && Math.abs(prev.y - next.y) < ANCHOR_TOLERANCE))) return;
+          this.labelAnchors[i] = next;
+          changes.push({ stepIndex: i, position: next });
       });
+      this.labelAnchors.length = this.centroids.length;
+      if (changes.length > 0) this.events.emit('labelAnchorsChange', changes);
+  }
 
-      for (let i = 0; i < stepCount; i++) {
-          if (sums[i] && sums[i].count > 0) {
-              const cx = sums[i].x / sums[i].count;
-              const cy = sums[i].y / sums[i].count;
-              const cz = sums[i].z / sums[i].count;
-              
-              const vec = new THREE.Vector3(cx, cy, cz);
-              vec.project(this.camera);
-              
-              const x = (vec.x * .5 + .5) * this.container.clientWidth;
-              const y = (-(vec.y * .5) + .5) * this.container.clientHeight;
-              const isVisible = vec.z < 1 && Math.abs(vec.x) < 1.1 && Math.abs(vec.y) < 1.1;
-
-              centroids.push({ x, y, visible: isVisible });
-          } else {
-              centroids.push({ x: 0, y: 0, visible: false });
+  private computeStepCentroids(): (THREE.Vector3 | null)[] {
+      const sums: THREE.Vector3[] = [];
+      const counts: number[] = [];
+      this.simulation.getVoxels().forEach(v => {
+          if (v.stepIndex < 0) return;
+          if (!sums[v.stepIndex]) {
+              sums[v.stepIndex] = new THREE.Vector3();
+              counts[v.stepIndex] = 0;
           }
-      }
-      return centroids;
-  }
-
-  private updatePhysics() {
-    // Stop physics if everything is stable to save battery
-    // CRITICAL: rebuildLayer sets state to INTERACTIVE_REBUILD so this condition is false, allowing physics to run.
-    if (this.state === AppState.STABLE) return;
-
-    // 1. Rubble Physics (For pieces NOT active)
-    this.voxels.forEach((v, i) => {
-        const isActive = this.activeRebuildIndices.has(i);
-        const isRejecting = this.rejectingIndices.has(i);
-
-        if (!isActive && !isRejecting) {
-             // Gravity
-             v.vy -= 0.04; 
-             v.x += v.vx; v.y += v.vy; v.z += v.vz;
-             v.rx += v.rvx; v.ry += v.rvy; v.rz += v.rvz;
-             
-             // Friction
-             v.vx *= 0.98; v.vz *= 0.98; v.vy *= 0.99;
-
-             // Floor collision
-             if (v.y < CONFIG.FLOOR_Y + 0.5) {
-                 v.y = CONFIG.FLOOR_Y + 0.5;
-                 v.vy *= -0.5; // Bounce
-                 v.vx *= 0.8; 
-                 v.vz *= 0.8;
-                 v.rvx *= 0.8; v.rvy *= 0.8; v.rvz *= 0.8;
-                 
-                 if (Math.abs(v.vy) < 0.1) v.vy = 0;
-             }
-        }
-    });
-
-    // 2. Rebuild Physics (Flying to target)
-    let movingCount = 0;
-    // We check for both INTERACTIVE and REJECTING because rejected pieces still need gravity,
-    // but active pieces need to fly.
-    if (this.state === AppState.INTERACTIVE_REBUILD || this.state === AppState.REJECTING) {
-        this.activeRebuildIndices.forEach(i => {
-            const v = this.voxels[i];
-            const t = this.rebuildTargets[i] || { x: v.originalX, y: v.originalY, z: v.originalZ };
-
-            const dx = t.x - v.x;
-            const dy = t.y - v.y;
-            const dz = t.z - v.z;
-            const distSq = dx*dx + dy*dy + dz*dz;
-
-            if (distSq > 0.05) {
-                movingCount++;
-                const speed = 0.12;
-                v.x += dx * speed;
-                v.y += dy * speed;
-                v.z += dz * speed;
-                
-                v.rx += (0 - v.rx) * speed;
-                v.ry += (0 - v.ry) * speed;
-                v.rz += (0 - v.rz) * speed;
-            } else {
-                // Snap to grid
-                if (v.x !== t.x) {
-                    v.x = t.x; v.y = t.y; v.z = t.z;
-                    v.rx = 0; v.ry = 0; v.rz = 0;
-                    // Visual pulse when landing
-                    // We could scale it here if we had scale in voxel data, but for now we just snap.
-                }
-            }
-        });
-    }
-    
-    // Check if fully rebuilt logic could go here, but we rely on UI interaction.
-
-    // 3. Rejecting Physics (Bounce)
-    if (this.state === AppState.REJECTING) {
-        this.rejectingIndices.forEach(i => {
-            const v = this.voxels[i];
-            v.vy -= 0.04;
-            v.x += v.vx; v.y += v.vy; v.z += v.vz;
-             if (v.y < CONFIG.FLOOR_Y + 0.5) {
-                 v.y = CONFIG.FLOOR_Y + 0.5;
-                 v.vy *= -0.4;
-             }
-        });
-    }
+          sums[v.stepIndex].x += v.x;
+          sums[v.stepIndex].y += v.y;
+          sums[v.stepIndex].z += v.z;
+          counts[v.stepIndex]++;
+      });
+      return Array.from({ length: sums.length }, (_, i) => sums[i] ? sums[i].divideScalar(counts[i]) : null);
   }
 
   private animate() {
+    if (this.contextLost) return;
     this.animationId = requestAnimationFrame(this.animate);
     this.controls.update();
-    this.updatePhysics();
-    this.draw();
+
+    // Fixed timestep: physics runs at the same rate on every display, frame drops catch up
+    const now = performance.now();
+    const elapsed = this.lastFrameTime ? (now - this.lastFrameTime) / 1000 : 0;
+    this.lastFrameTime = now;
+    this.monitorFrameTime(elapsed);
+    this.accumulator += Math.min(elapsed, MAX_FRAME_SECONDS);
+    while (this.accumulator >= CONFIG.SIM_TIMESTEP) {
+        this.simulation.step();
+        this.accumulator -= CONFIG.SIM_TIMESTEP;
+    }
+
+    if (!this.updateRenderMode()) this.draw();
     this.renderer.render(this.scene, this.camera);
+    this.events.emit('render', this.renderer.domElement);
+    this.updateLabelAnchors();
   }
 
   public handleResize() {
-      if (this.camera && this.renderer) {
-        this.camera.aspect = window.innerWidth / window.innerHeight;
-        this.camera.updateProjectionMatrix();
-        this.renderer.setSize(window.innerWidth, window.innerHeight);
-      }
+      const width = this.container.clientWidth;
+      const height = this.container.clientHeight;
+      // Hidden or collapsed containers report 0; keep the last usable size
+      if (width === 0 || height === 0) return;
+      if (width === this.viewWidth && height === this.viewHeight) return;
+      this.viewWidth = width;
+      this.viewHeight = height;
+      this.camera.aspect = width / height;
+      this.camera.updateProjectionMatrix();
+      this.renderer.setSize(width, height);
   }
   
+  public getSeed(): number {
+      return this.simulation.getSeed();
+  }
+
+  /** The canvas the scene is drawn into. */
+  public getCanvas(): HTMLCanvasElement {
+      return this.renderer.domElement;
+  }
+
   public setAutoRotate(enabled: boolean) {
     if (this.controls) {
         this.controls.autoRotate = enabled;
     }
   }
 
-  public getJsonData(): string {
-      return JSON.stringify(this.voxels.map(v => ({
-          x: v.x, y: v.y, z: v.z, color: '#' + v.color.getHexString(), stepIndex: v.stepIndex
-      })));
+  /** Returns the loaded model at its original positions and colors, regardless of the current animation. */
+  public getVoxelData(): VoxelData[] {
+      return this.simulation.getVoxelData();
   }
 
+  /** Stops the loop and releases every GPU resource; the engine cannot be used afterwards. */
   public cleanup() {
     cancelAnimationFrame(this.animationId);
-    this.container.removeChild(this.renderer.domElement);
+    this.resizeObserver?.disconnect();
+    window.removeEventListener('resize', this.handleResize);
+    this.events.clear();
+    this.simulation.events.clear();
+    this.renderer.domElement.removeEventListener('pointermove', this.handlePointerMove);
+    this.renderer.domElement.removeEventListener('pointerdown', this.handlePointerDown);
+    this.renderer.domElement.removeEventListener('pointerup', this.handlePointerUp);
+    this.renderer.domElement.removeEventListener('pointerleave', this.handlePointerLeave);
+    this.renderer.domElement.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.renderer.domElement.removeEventListener('webglcontextrestored', this.handleContextRestored);
+    this.controls.dispose();
+    this.disposeScene();
+
+    if (this.renderer.domElement.parentNode === this.container) this.container.removeChild(this.renderer.domElement);
     this.renderer.dispose();
+    // Browsers cap live WebGL contexts per page, so hand this one back right away
+    this.renderer.forceContextLoss();
+  }
+
+  private disposeScene() {
+    this.scene.traverse((object: any) => {
+        if (object.geometry) object.geometry.dispose();
+        const materials = Array.isArray(object.material) ? object.material : object.material ? [object.material] : [];
+        materials.forEach((material: any) => {
+            Object.values(material).forEach((value: any) => {
+                if (value && value.isTexture) value.dispose();
+            });
+            material.dispose();
+        });
+        // Instance buffers and light shadow maps
+        if (object.dispose) object.dispose();
+    });
+    this.scene.clear();
+    this.instanceMesh = null;
+    this.staticMesh = null;
+    this.ghostMesh = null;
+    this.outline = null;
+    this.dirLight = null;
   }
 }
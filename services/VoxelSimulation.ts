@@ -0,0 +1,565 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+import { AppState, SimulationVoxel, RebuildTarget, VoxelData } from '../types';
+import { CONFIG } from '../utils/voxelConstants';
+import { Rng, createRng, deriveSeed, randomSeed } from '../utils/random';
+import { RebuildStyle, DEFAULT_REBUILD_STYLE, EASINGS, computeRebuildDelays } from '../utils/rebuildChoreography';
+import { DismantleStrategy, DismantleStrategies } from '../utils/dismantleStrategies';
+import { TypedEmitter } from '../utils/eventEmitter';
+
+// How long a rejected layer jiggles before returning to the interactive state
+const REJECT_DURATION_SECONDS = 0.8;
+
+// Voxel-voxel contacts
+const RESTITUTION = 0.2;
+const CONTACT_FRICTION = 0.85;
+const WAKE_SPEED = 0.1; // Impact speed (units per step) that wakes a sleeping voxel
+
+// A voxel that stays within SLEEP_DISTANCE of one spot, or keeps below SLEEP_SPEED (e.g. when
+// wedged between two fixed voxels), for SLEEP_TICKS steps stops being simulated
+const SLEEP_DISTANCE = 0.05;
+const SLEEP_SPEED = 0.02;
+const SLEEP_TICKS = 30;
+const COLLISION_ITERATIONS = 3; // Relaxation passes; one pass leaves overlaps in dense piles
+
+// Rebuild choreography
+const FLIGHT_SECONDS = 0.7;
+const LAYER_SPREAD_SECONDS = 0.6; // Delay between the first and last voxel of a layer taking off
+const PULSE_SECONDS = 0.25;
+const PULSE_SCALE = 0.25;
+
+type Axis = 'x' | 'y' | 'z';
+
+export type SimulationEvents = {
+  stateChange: AppState;
+  layerStarted: { stepIndex: number };
+  layerLanded: { stepIndex: number };
+  allRebuilt: { layers: number }; // Every step is back in place after a dismantle
+  rejectionFinished: { stepIndex: number };
+  dismantleSettled: { seconds: number }; // All rubble came to rest; seconds since the dismantle started
+};
+
+interface Flight {
+  startTick: number; // Tick the layer was rebuilt; the voxel leaves RebuildTarget.delay later
+  launched: boolean;
+  fromX: number;
+  fromY: number;
+  fromZ: number;
+  fromRx: number;
+  fromRy: number;
+  fromRz: number;
+  fromScale: number;
+}
+
+// Cells are one voxel wide, so overlapping voxels are always in neighbouring cells
+const cellKey = (x: number, y: number, z: number) => ((Math.round(x) + 512) * 1024 + (Math.round(y) + 512)) * 1024 + (Math.round(z) + 512);
+
+/**
+ * Voxel state and physics without any rendering. Advance it with `step()`, one fixed
+ * timestep (CONFIG.SIM_TIMESTEP) per call, so runs are reproducible in tests and in Node.
+ */
+export class VoxelSimulation {
+  private voxels: SimulationVoxel[] = [];
+  private modelData: VoxelData[] = []; // As loaded, before any jitter or movement
+  private seed: number = 0;
+  private rng: Rng = createRng(0); // For interactions (rejects) after load
+  private rebuildTargets: RebuildTarget[] = [];
+
+  // Track which voxels are currently moving to their target
+  private activeRebuildIndices: Set<number> = new Set();
+  private rejectingIndices: Set<number> = new Set();
+  private rejectTicksLeft = 0;
+  private rejectedStep = -1;
+  private dismantleTick: number | null = null; // Set until the rubble of the last dismantle settles
+  private releaseTicks: number[] = []; // Dismantled voxels hold still until this tick
+
+  private flights: Map<number, Flight> = new Map(); // Voxels waiting to take off or flying home
+  private pulses: Map<number, number> = new Map(); // Voxel -> tick it landed
+  private pendingLayers: Map<number, number> = new Map(); // Step -> voxels not landed yet
+  private rebuildStyle: RebuildStyle = DEFAULT_REBUILD_STYLE;
+
+  // Rubble that has come to rest; it still blocks other voxels but is not integrated
+  private sleepingIndices: Set<number> = new Set();
+  private restTicks: number[] = [];
+  private restPositions: Float64Array = new Float64Array(0);
+
+  private state: AppState = AppState.STABLE;
+  private tick = 0;
+  private revision = 0; // Bumped whenever voxel positions may have changed
+  public readonly events = new TypedEmitter<SimulationEvents>();
+
+  public load(data: VoxelData[], seed: number = randomSeed()) {
+    this.modelData = data.map(v => ({ ...v }));
+    this.seed = seed;
+    this.rng = createRng(deriveSeed(seed, 'interaction'));
+    this.tick = 0;
+    this.revision++;
+    this.activeRebuildIndices.clear();
+    this.rejectingIndices.clear();
+    this.rejectTicksLeft = 0;
+    this.dismantleTick = null;
+    this.rebuildTargets = [];
+    this.releaseTicks = [];
+    this.flights.clear();
+    this.pulses.clear();
+    this.pendingLayers.clear();
+    this.sleepingIndices.clear();
+    this.restTicks = data.map(() => 0);
+    this.restPositions = new Float64Array(data.length * 3);
+
+    const rng = createRng(deriveSeed(seed, 'color'));
+    // Models big enough to render as a merged mesh at rest keep flat colors, so the
+    // instances they switch to while moving match it
+    const jitter = data.length < CONFIG.STATIC_MESH_THRESHOLD;
+    this.voxels = data.map((v, i) => {
+        const c = new THREE.Color(v.color);
+        // Slight color variance for texture
+        if (jitter) c.offsetHSL(0, 0, (rng() * 0.05) - 0.025);
+
+        return {
+            id: i,
+            x: v.x, y: v.y, z: v.z,
+            originalX: v.x, originalY: v.y, originalZ: v.z,
+            color: c,
+            stepIndex: v.stepIndex !== undefined ? v.stepIndex : -1,
+            vx: 0, vy: 0, vz: 0, rx: 0, ry: 0, rz: 0,
+            rvx: 0, rvy: 0, rvz: 0,
+            scale: 1
+        };
+    });
+
+    this.setState(AppState.STABLE);
+  }
+
+  public getVoxels(): readonly SimulationVoxel[] {
+      return this.voxels;
+  }
+
+  /** Returns the loaded model at its original positions and colors, regardless of the current animation. */
+  public getVoxelData(): VoxelData[] {
+      return this.modelData.map(v => ({ ...v, stepIndex: v.stepIndex !== undefined ? v.stepIndex : -1 }));
+  }
+
+  public getState(): AppState {
+      return this.state;
+  }
+
+  public getSeed(): number {
+      return this.seed;
+  }
+
+  public getRebuildStyle(): RebuildStyle {
+      return this.rebuildStyle;
+  }
+
+  /** Applies to layers rebuilt from now on. */
+  public setRebuildStyle(style: RebuildStyle) {
+      this.rebuildStyle = style;
+  }
+
+  /** True when every voxel is back at its original position and size, as after loading or a full rebuild. */
+  public isAssembled(): boolean {
+      if (this.state === AppState.STABLE) return true;
+      if (this.flights.size > 0 || this.pulses.size > 0 || this.rejectingIndices.size > 0) return false;
+      // Decoration has no step, so once dismantled it stays on the floor
+      return this.voxels.every((v, i) => v.stepIndex >= 0 && this.activeRebuildIndices.has(i));
+  }
+
+  /** True when no rubble is moving or waiting to fall; voxels flying to their targets are not counted. */
+  public isSettled(): boolean {
+      return this.voxels.every((_, i) => this.sleepingIndices.has(i) || this.activeRebuildIndices.has(i));
+  }
+
+  /** Number of fixed steps simulated since the model was loaded. */
+  public getTick(): number {
+      return this.tick;
+  }
+
+  /** Changes whenever voxel positions may have changed; a cheap cache key for derived data. */
+  public getRevision(): number {
+      return this.revision;
+  }
+
+  public dismantle(strategy: DismantleStrategy = DismantleStrategies.Pop): boolean {
+    if (this.state !== AppState.STABLE) return false;
+    this.setState(AppState.DISMANTLING);
+    this.dismantleTick = this.tick;
+    this.activeRebuildIndices.clear();
+    this.rejectingIndices.clear();
+    this.flights.clear();
+    this.pulses.clear();
+    this.pendingLayers.clear();
+    this.wakeAll();
+
+    // Prepare rebuild targets from ORIGINAL positions; decoration has no step and stays on the floor
+    this.rebuildTargets = this.voxels.map(v => ({
+        x: v.originalX, y: v.originalY, z: v.originalZ,
+        delay: 0,
+        isRubble: v.stepIndex < 0
+    }));
+
+    // Same seed, same explosion
+    const rng = createRng(deriveSeed(this.seed, 'dismantle'));
+    this.voxels.forEach(v => v.scale = 1);
+    const delays = strategy.apply(this.voxels, rng);
+    this.releaseTicks = this.voxels.map((_, i) => this.tick + Math.round((delays[i] || 0) / CONFIG.SIM_TIMESTEP));
+    return true;
+  }
+
+  public rebuildLayer(stepIndex: number) {
+      // A right answer cuts a wrong one's jiggle short; its pieces drop back into the rubble
+      this.finishRejection();
+      // FORCE STATE CHANGE to wake up physics
+      this.setState(AppState.INTERACTIVE_REBUILD);
+      // Pieces leaving the pile may have been holding others up
+      this.wakeAll();
+
+      const found: number[] = [];
+      const launching: number[] = [];
+      this.voxels.forEach((v, i) => {
+          if (v.stepIndex !== stepIndex || this.targetOf(i).isRubble) return;
+          found.push(i);
+          if (!this.activeRebuildIndices.has(i) && !this.flights.has(i)) launching.push(i);
+      });
+      if (launching.length === 0) return found.length > 0;
+
+      const delays = computeRebuildDelays(launching.map(i => this.targetOf(i)), this.rebuildStyle.pattern, LAYER_SPREAD_SECONDS, this.rng);
+      launching.forEach((i, k) => {
+          this.targetOf(i).delay = delays[k];
+          this.rejectingIndices.delete(i);
+          this.flights.set(i, { startTick: this.tick, launched: false, fromX: 0, fromY: 0, fromZ: 0, fromRx: 0, fromRy: 0, fromRz: 0, fromScale: 1 });
+      });
+      this.pendingLayers.set(stepIndex, (this.pendingLayers.get(stepIndex) || 0) + launching.length);
+      this.events.emit('layerStarted', { stepIndex });
+      return true;
+  }
+
+  public rejectLayer(stepIndex: number) {
+     this.setState(AppState.REJECTING);
+     this.rejectTicksLeft = Math.round(REJECT_DURATION_SECONDS / CONFIG.SIM_TIMESTEP);
+     this.rejectedStep = stepIndex;
+     this.wakeAll();
+
+     this.voxels.forEach((v, i) => {
+         if (v.stepIndex === stepIndex) {
+             this.rejectingIndices.add(i);
+             // Jiggle
+             v.vy = 0.5;
+             v.vx = (this.rng() - 0.5) * 0.5;
+             v.vz = (this.rng() - 0.5) * 0.5;
+         }
+     });
+  }
+
+  private finishRejection() {
+      if (this.state !== AppState.REJECTING && this.rejectingIndices.size === 0) return;
+      this.rejectingIndices.clear();
+      this.rejectTicksLeft = 0;
+      this.setState(AppState.INTERACTIVE_REBUILD);
+      this.events.emit('rejectionFinished', { stepIndex: this.rejectedStep });
+  }
+
+  /** Advances the simulation by one fixed timestep. */
+  public step() {
+    // Stop physics if everything is stable to save battery
+    // CRITICAL: rebuildLayer sets state to INTERACTIVE_REBUILD so this condition is false, allowing physics to run.
+    if (this.state === AppState.STABLE) return;
+    this.tick++;
+    // Flights and rejections move voxels this tick even when the rubble is asleep
+    const isMoving = this.flights.size > 0 || this.rejectingIndices.size > 0;
+
+    // 1. Rubble Physics (For pieces NOT active)
+    this.voxels.forEach((v, i) => {
+        const isActive = this.activeRebuildIndices.has(i);
+        const isRejecting = this.rejectingIndices.has(i);
+
+        if (!isActive && !isRejecting && !this.sleepingIndices.has(i) && !this.isHeld(i)) {
+             // Gravity
+             v.vy -= 0.04;
+             v.x += v.vx; v.y += v.vy; v.z += v.vz;
+             v.rx += v.rvx; v.ry += v.rvy; v.rz += v.rvz;
+
+             // Friction
+             v.vx *= 0.98; v.vz *= 0.98; v.vy *= 0.99;
+
+             // Floor collision
+             if (v.y < this.floorOf(v)) {
+                 v.y = this.floorOf(v);
+                 v.vy *= -0.5; // Bounce
+                 v.vx *= 0.8;
+                 v.vz *= 0.8;
+                 v.rvx *= 0.8; v.rvy *= 0.8; v.rvz *= 0.8;
+
+                 if (Math.abs(v.vy) < 0.1) v.vy = 0;
+             }
+        }
+    });
+
+    // 2. Rebuild Physics (Flying to target)
+    // Voxels stay rubble until their delay is up, then follow the easing curve home.
+    const ease = EASINGS[this.rebuildStyle.easing];
+    this.flights.forEach((f, i) => {
+        const v = this.voxels[i];
+        const t = this.targetOf(i);
+        const elapsed = (this.tick - f.startTick) * CONFIG.SIM_TIMESTEP - t.delay;
+        if (elapsed < 0) return;
+
+        if (!f.launched) {
+            f.launched = true;
+            f.fromX = v.x; f.fromY = v.y; f.fromZ = v.z;
+            f.fromRx = v.rx; f.fromRy = v.ry; f.fromRz = v.rz;
+            f.fromScale = v.scale;
+            this.activeRebuildIndices.add(i);
+            this.rejectingIndices.delete(i);
+            this.wake(i);
+        }
+
+        const progress = Math.min(1, elapsed / FLIGHT_SECONDS);
+        const e = ease(progress);
+        v.x = f.fromX + (t.x - f.fromX) * e;
+        v.y = f.fromY + (t.y - f.fromY) * e;
+        v.z = f.fromZ + (t.z - f.fromZ) * e;
+        v.rx = f.fromRx * (1 - e);
+        v.ry = f.fromRy * (1 - e);
+        v.rz = f.fromRz * (1 - e);
+        v.scale = f.fromScale + (1 - f.fromScale) * Math.min(1, e);
+
+        if (progress >= 1) {
+            // Snap to grid
+            v.x = t.x; v.y = t.y; v.z = t.z;
+            v.rx = 0; v.ry = 0; v.rz = 0;
+            v.vx = 0; v.vy = 0; v.vz = 0;
+            this.flights.delete(i);
+            this.pulses.set(i, this.tick);
+            // Rubble resting in the slot has to make room
+            this.wakeAround(v);
+            this.landed(v.stepIndex);
+        }
+    });
+
+    // Landing pulse
+    this.pulses.forEach((landedTick, i) => {
+        const age = (this.tick - landedTick) * CONFIG.SIM_TIMESTEP / PULSE_SECONDS;
+        if (age >= 1) {
+            this.voxels[i].scale = 1;
+            this.pulses.delete(i);
+        } else {
+            this.voxels[i].scale = 1 + PULSE_SCALE * Math.sin(Math.PI * age);
+        }
+    });
+
+    // 3. Rejecting Physics (Bounce)
+    if (this.state === AppState.REJECTING) {
+        this.rejectingIndices.forEach(i => {
+            const v = this.voxels[i];
+            v.vy -= 0.04;
+            v.x += v.vx; v.y += v.vy; v.z += v.vz;
+             if (v.y < this.floorOf(v)) {
+                 v.y = this.floorOf(v);
+                 v.vy *= -0.4;
+             }
+        });
+
+        // Return to manual rebuild state after rejection animation
+        this.rejectTicksLeft--;
+        if (this.rejectTicksLeft <= 0) this.finishRejection();
+    }
+
+    // 4. Voxel-voxel collisions, then put resting rubble to sleep
+    if (this.isSettled()) {
+        if (isMoving) this.revision++;
+        if (this.dismantleTick !== null) {
+            this.events.emit('dismantleSettled', { seconds: (this.tick - this.dismantleTick) * CONFIG.SIM_TIMESTEP });
+            this.dismantleTick = null;
+        }
+        return;
+    }
+    this.revision++;
+    const hash = this.buildSpatialHash();
+    for (let pass = 0; pass < COLLISION_ITERATIONS; pass++) this.resolveCollisions(hash, pass === 0);
+    this.updateSleep();
+  }
+
+  private targetOf(i: number): RebuildTarget {
+      if (!this.rebuildTargets[i]) {
+          const v = this.voxels[i];
+          this.rebuildTargets[i] = { x: v.originalX, y: v.originalY, z: v.originalZ, delay: 0, isRubble: v.stepIndex < 0 };
+      }
+      return this.rebuildTargets[i];
+  }
+
+  private landed(stepIndex: number) {
+      const remaining = (this.pendingLayers.get(stepIndex) || 0) - 1;
+      if (remaining > 0) {
+          this.pendingLayers.set(stepIndex, remaining);
+      } else {
+          this.pendingLayers.delete(stepIndex);
+          this.events.emit('layerLanded', { stepIndex });
+          if (this.pendingLayers.size === 0 && this.isRebuilt()) {
+              const layers = new Set(this.voxels.filter(v => v.stepIndex >= 0).map(v => v.stepIndex)).size;
+              this.events.emit('allRebuilt', { layers });
+          }
+      }
+  }
+
+  /** Every voxel that belongs to a step has flown home. */
+  private isRebuilt(): boolean {
+      return this.voxels.every((_, i) => this.targetOf(i).isRubble || (this.activeRebuildIndices.has(i) && !this.flights.has(i)));
+  }
+
+  private isHeld(i: number): boolean {
+      return this.tick < (this.releaseTicks[i] || 0);
+  }
+
+  private floorOf(v: SimulationVoxel): number {
+      return CONFIG.FLOOR_Y + 0.5 * v.scale;
+  }
+
+  /** Moving rubble collides with everything except pieces still flying to their target. */
+  private isDynamic(i: number): boolean {
+      return !this.activeRebuildIndices.has(i) && !this.sleepingIndices.has(i) && !this.isHeld(i);
+  }
+
+  private buildSpatialHash(): Map<number, number[]> {
+      const hash = new Map<number, number[]>();
+      this.voxels.forEach((v, i) => {
+          if (this.activeRebuildIndices.has(i) && this.flights.has(i)) return;
+          const key = cellKey(v.x, v.y, v.z);
+          const cell = hash.get(key);
+          if (cell) cell.push(i); else hash.set(key, [i]);
+      });
+      return hash;
+  }
+
+  private forEachNeighbour(hash: Map<number, number[]>, v: SimulationVoxel, callback: (j: number) => void) {
+      const cx = Math.round(v.x), cy = Math.round(v.y), cz = Math.round(v.z);
+      for (let x = cx - 1; x <= cx + 1; x++) {
+          for (let y = cy - 1; y <= cy + 1; y++) {
+              for (let z = cz - 1; z <= cz + 1; z++) {
+                  const cell = hash.get(cellKey(x, y, z));
+                  if (cell) cell.forEach(callback);
+              }
+          }
+      }
+  }
+
+  private resolveCollisions(hash: Map<number, number[]>, applyFriction: boolean) {
+      const woken: number[] = [];
+
+      this.voxels.forEach((a, i) => {
+          if (!this.isDynamic(i)) return;
+          this.forEachNeighbour(hash, a, j => {
+              if (j === i) return;
+              const movable = this.isDynamic(j);
+              // Pairs of moving voxels are handled once, from the lower index
+              if (movable && j < i) return;
+              const impact = this.resolvePair(a, this.voxels[j], movable, applyFriction);
+              if (impact > WAKE_SPEED && this.sleepingIndices.has(j)) woken.push(j);
+          });
+      });
+
+      woken.forEach(j => this.wake(j));
+  }
+
+  /** Pushes two overlapping voxels apart along the axis of least penetration. Returns the impact speed. */
+  private resolvePair(a: SimulationVoxel, b: SimulationVoxel, bMovable: boolean, applyFriction: boolean): number {
+      const size = CONFIG.VOXEL_SIZE * (a.scale + b.scale) / 2;
+      const dx = a.x - b.x, dy = a.y - b.y, dz = a.z - b.z;
+      const px = size - Math.abs(dx), py = size - Math.abs(dy), pz = size - Math.abs(dz);
+      if (px <= 0 || py <= 0 || pz <= 0) return 0;
+
+      let axis: Axis = 'y', depth = py, delta = dy;
+      if (px < depth) { axis = 'x'; depth = px; delta = dx; }
+      if (pz < depth) { axis = 'z'; depth = pz; delta = dz; }
+      let sign = delta >= 0 ? 1 : -1;
+      // How much of the correction each voxel takes; a fixed obstacle takes none
+      let shareA = bMovable ? 0.5 : 1;
+      let shareB = bMovable ? 0.5 : 0;
+
+      // Never push a voxel through the floor; the other one moves instead, or a fixed obstacle pushes sideways
+      if (axis === 'y') {
+          if (sign < 0 && a.y - depth * shareA < this.floorOf(a)) {
+              if (bMovable) { shareA = 0; shareB = 1; }
+              else if (px < pz) { axis = 'x'; depth = px; sign = dx >= 0 ? 1 : -1; }
+              else { axis = 'z'; depth = pz; sign = dz >= 0 ? 1 : -1; }
+          } else if (sign > 0 && bMovable && b.y - depth * shareB < this.floorOf(b)) {
+              shareA = 1; shareB = 0;
+          }
+      }
+      const velocity = `v${axis}` as const;
+
+      a[axis] += sign * depth * shareA;
+      b[axis] -= sign * depth * shareB;
+
+      // Only bounce when the voxels are closing in
+      const closing = (a[velocity] - (bMovable ? b[velocity] : 0)) * sign;
+      if (closing < 0) {
+          const impulse = -(1 + RESTITUTION) * closing;
+          a[velocity] += sign * impulse * shareA;
+          b[velocity] -= sign * impulse * shareB;
+      }
+
+      // Sliding and spinning die down while in contact
+      if (applyFriction) [a, ...(bMovable ? [b] : [])].forEach(v => {
+          if (axis !== 'x') v.vx *= CONTACT_FRICTION;
+          if (axis !== 'y') v.vy *= CONTACT_FRICTION;
+          if (axis !== 'z') v.vz *= CONTACT_FRICTION;
+          v.rvx *= CONTACT_FRICTION; v.rvy *= CONTACT_FRICTION; v.rvz *= CONTACT_FRICTION;
+      });
+
+      return Math.max(0, -closing);
+  }
+
+  private updateSleep() {
+      this.voxels.forEach((v, i) => {
+          if (!this.isDynamic(i) || this.rejectingIndices.has(i)) return;
+          const drift = Math.abs(v.x - this.restPositions[i * 3])
+              + Math.abs(v.y - this.restPositions[i * 3 + 1])
+              + Math.abs(v.z - this.restPositions[i * 3 + 2]);
+
+          const slow = Math.abs(v.vx) + Math.abs(v.vy) + Math.abs(v.vz) < SLEEP_SPEED;
+
+          if (drift > SLEEP_DISTANCE) {
+              // Moved away; measure rest from here
+              this.restTicks[i] = slow ? this.restTicks[i] + 1 : 0;
+              this.restPositions[i * 3] = v.x;
+              this.restPositions[i * 3 + 1] = v.y;
+              this.restPositions[i * 3 + 2] = v.z;
+          } else {
+              this.restTicks[i]++;
+          }
+          if (this.restTicks[i] >= SLEEP_TICKS) {
+              this.sleepingIndices.add(i);
+              v.vx = 0; v.vy = 0; v.vz = 0;
+              v.rvx = 0; v.rvy = 0; v.rvz = 0;
+          }
+      });
+  }
+
+  private wake(i: number) {
+      this.sleepingIndices.delete(i);
+      this.restTicks[i] = 0;
+  }
+
+  private wakeAll() {
+      this.sleepingIndices.forEach(i => this.restTicks[i] = 0);
+      this.sleepingIndices.clear();
+  }
+
+  private wakeAround(v: SimulationVoxel) {
+      this.sleepingIndices.forEach(i => {
+          const o = this.voxels[i];
+          if (Math.abs(o.x - v.x) < 1.5 && Math.abs(o.y - v.y) < 1.5 && Math.abs(o.z - v.z) < 1.5) this.wake(i);
+      });
+  }
+
+  private setState(state: AppState) {
+      this.state = state;
+      this.events.emit('stateChange', state);
+  }
+}
@@ -46,8 +46,17 @@ export interface SimulationVoxel {
   rvx: number;
   rvy: number;
   rvz: number;
+  scale: number; // Visual only, used for the landing pulse
 }
 
+export interface VoxelPick {
+  voxel: SimulationVoxel;
+  stepIndex: number; // Same as voxel.stepIndex, -1 for decoration
+}
+
+// Rebuild hint: no ghosts, the steps that can go next, or every layer still missing
+export type GhostMode = 'off' | 'next' | 'all';
+
 export interface RebuildTarget {
   x: number;
   y: number;
@@ -57,15 +66,25 @@ export interface RebuildTarget {
 }
 
 export interface SavedModel {
+  id?: string; // Assigned by the build library once persisted
   name: string;
   data: VoxelData[];
   baseModel?: string;
   steps?: LessonStep[];
+  template?: string; // Template the lesson was generated with
+  templateParams?: Record<string, number>; // Overrides of the template's parameters, e.g. radius
+  stepLabels?: string; // StepLabelStyle embossed on the template's layers; none when unset
+  seed?: number; // Random seed the lesson was generated with
+  dismantleStyle?: string; // Key of DismantleStrategies; the default pop when unset
+  createdAt?: number;
+  updatedAt?: number;
 }
 
 export interface LessonStep {
     text: string;
     color: string; // Hex string
+    requires?: number[]; // Earlier steps that must be rebuilt first; the previous step when unset
+    children?: LessonStep[]; // Sub-steps, opened as a stack of their own
 }
 
 export interface ScreenPosition {
@@ -73,3 +92,8 @@ export interface ScreenPosition {
     y: number;
     visible: boolean;
 }
+
+export interface LabelAnchor {
+    stepIndex: number;
+    position: ScreenPosition;
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+  size: number;
+}
+
+/**
+ * Snapshot-based undo/redo stack. Callers record the state *before* a change;
+ * undo/redo swap it with the current state. The oldest entries are dropped once
+ * the estimated size of all snapshots exceeds the memory budget.
+ */
+export class CommandHistory<T> {
+  private past: HistoryEntry<T>[] = [];
+  private future: HistoryEntry<T>[] = [];
+  private totalSize = 0;
+
+  constructor(
+    private maxBytes: number,
+    private sizeOf: (snapshot: T) => number
+  ) {}
+
+  public get canUndo() { return this.past.length > 0; }
+  public get canRedo() { return this.future.length > 0; }
+  public get undoLabel() { return this.past.length > 0 ? this.past[this.past.length - 1].label : null; }
+  public get redoLabel() { return this.future.length > 0 ? this.future[this.future.length - 1].label : null; }
+
+  /** Records the state before a change. Clears the redo stack. */
+  public record(label: string, before: T) {
+      this.future.forEach(e => this.totalSize -= e.size);
+      this.future = [];
+      this.push(this.past, { label, snapshot: before, size: this.sizeOf(before) });
+  }
+
+  /** Returns the state to restore, or null when there is nothing to undo. */
+  public undo(current: T): T | null {
+      const entry = this.past.pop();
+      if (!entry) return null;
+      this.totalSize -= entry.size;
+      this.push(this.future, { label: entry.label, snapshot: current, size: this.sizeOf(current) });
+      return entry.snapshot;
+  }
+
+  public redo(current: T): T | null {
+      const entry = this.future.pop();
+      if (!entry) return null;
+      this.totalSize -= entry.size;
+      this.push(this.past, { label: entry.label, snapshot: current, size: this.sizeOf(current) });
+      return entry.snapshot;
+  }
+
+  public clear() {
+      this.past = [];
+      this.future = [];
+      this.totalSize = 0;
+  }
+
+  private push(stack: HistoryEntry<T>[], entry: HistoryEntry<T>) {
+      stack.push(entry);
+      this.totalSize += entry.size;
+
+      // Drop the oldest undo entries first, then the farthest redo entries; always keep the newest
+      while (this.totalSize > this.maxBytes && this.past.length + this.future.length > 1) {
+          const dropped = this.past.length > 0 && (this.past.length > 1 || stack !== this.past) ? this.past.shift() : this.future.shift();
+          if (!dropped) break;
+          this.totalSize -= dropped.size;
+      }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SimulationVoxel } from '../types';
+import { Rng } from './random';
+
+// Ways to take a model apart. A strategy only sets the starting motion of each voxel;
+// gravity, collisions and settling are left to the simulation.
+
+export interface DismantleStrategy {
+  label: string;
+  /**
+   * Sets each voxel's launch velocity, spin and (optionally) scale.
+   * Returns per-voxel release delays in seconds; voxels hold still until released.
+   */
+  apply(voxels: SimulationVoxel[], rng: Rng): number[];
+}
+
+const center = (voxels: SimulationVoxel[]) => {
+    const n = Math.max(1, voxels.length);
+    return {
+        x: voxels.reduce((sum, v) => sum + v.x, 0) / n,
+        y: voxels.reduce((sum, v) => sum + v.y, 0) / n,
+        z: voxels.reduce((sum, v) => sum + v.z, 0) / n,
+    };
+};
+
+const spin = (v: SimulationVoxel, rng: Rng, amount: number) => {
+    v.rvx = (rng() - 0.5) * amount;
+    v.rvy = (rng() - 0.5) * amount;
+    v.rvz = (rng() - 0.5) * amount;
+};
+
+// Steps when the model has them, otherwise rows; listed bottom to top
+const layersOf = (voxels: SimulationVoxel[]): number[][] => {
+    const hasSteps = voxels.some(v => v.stepIndex >= 0);
+    const groups = new Map<number, number[]>();
+    voxels.forEach((v, i) => {
+        const key = hasSteps ? (v.stepIndex >= 0 ? v.stepIndex : -1) : Math.round(v.y);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(i);
+    });
+    const meanY = (indices: number[]) => indices.reduce((sum, i) => sum + voxels[i].y, 0) / indices.length;
+    return Array.from(groups.values()).sort((a, b) => meanY(a) - meanY(b));
+};
+
+export const DismantleStrategies = {
+  // Random outward pop, all at once
+  Pop: {
+    label: 'Pop',
+    apply: (voxels, rng) => voxels.map(v => {
+        // Explode outward slightly
+        v.vx = (rng() - 0.5) * 2;
+        v.vy = rng() * 1.5 + 0.5; // Upward pop
+        v.vz = (rng() - 0.5) * 2;
+        spin(v, rng, 0.4);
+        return 0;
+    })
+  },
+
+  // Layers topple one after another, starting at the top
+  Collapse: {
+    label: 'Collapse',
+    apply: (voxels, rng) => {
+        const delays = voxels.map(() => 0);
+        const layers = layersOf(voxels).reverse();
+        const gap = Math.min(0.4, 2.4 / Math.max(1, layers.length));
+        layers.forEach((layer, rank) => layer.forEach(i => {
+            const v = voxels[i];
+            v.vx = (rng() - 0.5) * 0.4;
+            v.vy = rng() * 0.2;
+            v.vz = (rng() - 0.5) * 0.4;
+            spin(v, rng, 0.2);
+            delays[i] = rank * gap;
+        }));
+        return delays;
+    }
+  },
+
+  // Each step slides away as one slab, in alternating directions
+  Slice: {
+    label: 'Slice',
+    apply: (voxels, rng) => {
+        const delays = voxels.map(() => 0);
+        const golden = Math.PI * (3 - Math.sqrt(5));
+        const offset = rng() * Math.PI * 2;
+        layersOf(voxels).forEach((layer, rank) => {
+            const angle = offset + rank * golden;
+            const speed = 0.25 + rank * 0.03;
+            layer.forEach(i => {
+                const v = voxels[i];
+                v.vx = Math.cos(angle) * speed;
+                v.vy = 0;
+                v.vz = Math.sin(angle) * speed;
+                v.rvx = 0; v.rvy = 0; v.rvz = 0;
+                delays[i] = rank * 0.1;
+            });
+        });
+        return delays;
+    }
+  },
+
+  // Shrinks to small grains that trickle down from the top
+  Crumble: {
+    label: 'Crumble',
+    apply: (voxels, rng) => {
+        const minY = voxels.reduce((min, v) => Math.min(min, v.y), Infinity);
+        const maxY = voxels.reduce((max, v) => Math.max(max, v.y), -Infinity);
+        return voxels.map(v => {
+            v.scale = 0.45;
+            v.vx = (rng() - 0.5) * 0.15;
+            v.vy = 0;
+            v.vz = (rng() - 0.5) * 0.15;
+            spin(v, rng, 0.6);
+            return (maxY > minY ? (maxY - v.y) / (maxY - minY) : 0) * 1.2 + rng() * 0.3;
+        });
+    }
+  },
+
+  // Pulled towards the middle, then dropped into a heap
+  Implode: {
+    label: 'Implode',
+    apply: (voxels, rng) => {
+        const c = center(voxels);
+        return voxels.map(v => {
+            v.vx = (c.x - v.x) * 0.08;
+            v.vy = (c.y - v.y) * 0.08 + 0.3;
+            v.vz = (c.z - v.z) * 0.08;
+            spin(v, rng, 0.3);
+            return 0;
+        });
+    }
+  },
+} satisfies Record<string, DismantleStrategy>;
+
+export type DismantleStyle = keyof typeof DismantleStrategies;
+
+export const DEFAULT_DISMANTLE_STYLE: DismantleStyle = 'Pop';
+
+export function isDismantleStyle(name: unknown): name is DismantleStyle {
+    return typeof name === 'string' && Object.prototype.hasOwnProperty.call(DismantleStrategies, name);
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+type Handler<T> = (payload: T) => void;
+
+/** Minimal emitter where each event name has one payload type. */
+export class TypedEmitter<Events extends Record<string, unknown>> {
+  private handlers: { [K in keyof Events]?: Set<Handler<Events[K]>> } = {};
+
+  /** Subscribes to an event. Returns a function that unsubscribes. */
+  public on<K extends keyof Events>(event: K, handler: Handler<Events[K]>): () => void {
+      let set = this.handlers[event];
+      if (!set) {
+          set = new Set();
+          this.handlers[event] = set;
+      }
+      set.add(handler);
+      return () => this.off(event, handler);
+  }
+
+  public off<K extends keyof Events>(event: K, handler: Handler<Events[K]>) {
+      this.handlers[event]?.delete(handler);
+  }
+
+  public hasListeners<K extends keyof Events>(event: K): boolean {
+      return (this.handlers[event]?.size ?? 0) > 0;
+  }
+
+  public emit<K extends keyof Events>(event: K, payload: Events[K]) {
+      this.handlers[event]?.forEach(handler => handler(payload));
+  }
+
+  public clear() {
+      this.handlers = {};
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Animated GIF89a writer. Frames are mapped onto one fixed 6x7x6 color cube, which keeps
+// encoding cheap enough to run while recording and looks fine for flat-shaded voxels.
+// Spec: https://www.w3.org/Graphics/GIF/spec-gif89a.txt
+
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+const MAX_CODE = 4095;
+
+const PALETTE: number[] = (() => {
+    const palette: number[] = [];
+    for (let r = 0; r < RED_LEVELS; r++)
+        for (let g = 0; g < GREEN_LEVELS; g++)
+            for (let b = 0; b < BLUE_LEVELS; b++) {
+                palette.push(
+                    Math.round(r * 255 / (RED_LEVELS - 1)),
+                    Math.round(g * 255 / (GREEN_LEVELS - 1)),
+                    Math.round(b * 255 / (BLUE_LEVELS - 1))
+                );
+            }
+    // The color table must hold a power of two entries
+    while (palette.length < 256 * 3) palette.push(0, 0, 0);
+    return palette;
+})();
+
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+
+  public byte(value: number) {
+      if (this.length === this.bytes.length) {
+          const grown = new Uint8Array(this.bytes.length * 2);
+          grown.set(this.bytes);
+          this.bytes = grown;
+      }
+      this.bytes[this.length++] = value;
+  }
+
+  public uint16(value: number) {
+      this.byte(value);
+      this.byte(value >> 8);
+  }
+
+  public text(value: string) {
+      for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  public array(values: ArrayLike<number>) {
+      for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  public toUint8Array(): Uint8Array {
+      return this.bytes.slice(0, this.length);
+  }
+}
+
+// Packs variable-width codes least significant bit first into 255-byte sub-blocks
+class CodeWriter {
+  private block: number[] = [];
+  private buffer = 0;
+  private bits = 0;
+
+  constructor(private out: ByteWriter) {}
+
+  public write(code: number, size: number) {
+      this.buffer |= code << this.bits;
+      this.bits += size;
+      while (this.bits >= 8) {
+          this.push(this.buffer & 0xFF);
+          this.buffer >>= 8;
+          this.bits -= 8;
+      }
+  }
+
+  public flush() {
+      if (this.bits > 0) this.push(this.buffer & 0xFF);
+      this.buffer = 0;
+      this.bits = 0;
+      if (this.block.length > 0) this.writeBlock();
+      this.out.byte(0); // Block terminator
+  }
+
+  private push(value: number) {
+      this.block.push(value);
+      if (this.block.length === 255) this.writeBlock();
+  }
+
+  private writeBlock() {
+      this.out.byte(this.block.length);
+      this.out.array(this.block);
+      this.block = [];
+  }
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: ByteWriter) {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const codes = new CodeWriter(out);
+    const table = new Map<number, number>();
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+
+    out.byte(minCodeSize);
+    codes.write(clearCode, codeSize);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = (prefix << 8) | k;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        codes.write(prefix, codeSize);
+        if (nextCode > MAX_CODE) {
+            // Table full: start over
+            codes.write(clearCode, codeSize);
+            table.clear();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = k;
+    }
+    codes.write(prefix, codeSize);
+    codes.write(endCode, codeSize);
+    codes.flush();
+}
+
+/** Index of the nearest palette entry for an RGB color. */
+export function toPaletteIndex(r: number, g: number, b: number): number {
+    const ri = Math.round(r * (RED_LEVELS - 1) / 255);
+    const gi = Math.round(g * (GREEN_LEVELS - 1) / 255);
+    const bi = Math.round(b * (BLUE_LEVELS - 1) / 255);
+    return (ri * GREEN_LEVELS + gi) * BLUE_LEVELS + bi;
+}
+
+export class GifEncoder {
+  private out = new ByteWriter();
+  private frameCount = 0;
+  private finished = false;
+
+  constructor(private width: number, private height: number) {
+      this.out.text('GIF89a');
+      this.out.uint16(width);
+      this.out.uint16(height);
+      this.out.byte(0xF7); // Global color table of 256 entries, 8 bits per channel
+      this.out.byte(0); // Background color index
+      this.out.byte(0); // Square pixels
+      this.out.array(PALETTE);
+
+      // Loop forever
+      this.out.byte(0x21);
+      this.out.byte(0xFF);
+      this.out.byte(11);
+      this.out.text('NETSCAPE2.0');
+      this.out.byte(3);
+      this.out.byte(1);
+      this.out.uint16(0);
+      this.out.byte(0);
+  }
+
+  get frames() { return this.frameCount; }
+
+  /** Appends one frame of RGBA pixels (width * height * 4 bytes), shown for `delayMs`. */
+  public addFrame(rgba: ArrayLike<number>, delayMs: number) {
+      if (this.finished) throw new Error('GIF is already finished');
+      if (rgba.length !== this.width * this.height * 4) throw new Error('Frame size does not match the GIF');
+
+      const indices = new Uint8Array(this.width * this.height);
+      for (let i = 0; i < indices.length; i++) {
+          indices[i] = toPaletteIndex(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]);
+      }
+
+      // Graphic control extension: frame delay in hundredths of a second
+      this.out.byte(0x21);
+      this.out.byte(0xF9);
+      this.out.byte(4);
+      this.out.byte(0);
+      this.out.uint16(Math.max(2, Math.round(delayMs / 10)));
+      this.out.byte(0);
+      this.out.byte(0);
+
+      // Image descriptor covering the whole canvas, no local color table
+      this.out.byte(0x2C);
+      this.out.uint16(0);
+      this.out.uint16(0);
+      this.out.uint16(this.width);
+      this.out.uint16(this.height);
+      this.out.byte(0);
+
+      lzwEncode(indices, 8, this.out);
+      this.frameCount++;
+  }
+
+  /** Writes the trailer and returns the file. */
+  public finish(): Uint8Array {
+      if (!this.finished) {
+          this.out.byte(0x3B);
+          this.finished = true;
+      }
+      return this.out.toUint8Array();
+  }
+}
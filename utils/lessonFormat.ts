@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SavedModel, LessonStep } from '../types';
+
+export const LESSON_FORMAT = 'concept-stack-lesson';
+export const LESSON_FORMAT_VERSION = 1;
+
+// Voxels are written with hex colors so the files stay readable and diffable
+interface SerializedVoxel {
+  x: number;
+  y: number;
+  z: number;
+  color: string;
+  stepIndex: number;
+}
+
+export interface LessonDocument {
+  format: typeof LESSON_FORMAT;
+  version: number;
+  name: string;
+  baseModel?: string;
+  template?: string;
+  templateParams?: Record<string, number>;
+  stepLabels?: string;
+  seed?: number;
+  dismantleStyle?: string;
+  steps: LessonStep[];
+  voxels: SerializedVoxel[];
+}
+
+export class LessonFormatError extends Error {
+  constructor(message: string) {
+      super(message);
+      this.name = 'LessonFormatError';
+  }
+}
+
+export function colorToHex(color: number): string {
+    return '#' + color.toString(16).padStart(6, '0').toUpperCase();
+}
+
+/** Wraps a model (with its original voxel positions) in a versioned lesson document. */
+export function createLessonDocument(model: SavedModel): LessonDocument {
+    return {
+        format: LESSON_FORMAT,
+        version: LESSON_FORMAT_VERSION,
+        name: model.name,
+        baseModel: model.baseModel,
+        template: model.template,
+        templateParams: model.templateParams,
+        stepLabels: model.stepLabels,
+        seed: model.seed,
+        dismantleStyle: model.dismantleStyle,
+        steps: (model.steps || []).map(s => ({ ...s })),
+        voxels: model.data.map(v => ({
+            x: v.x, y: v.y, z: v.z,
+            color: colorToHex(v.color),
+            stepIndex: v.stepIndex !== undefined ? v.stepIndex : -1
+        }))
+    };
+}
+
+export function serializeLesson(model: SavedModel): string {
+    return JSON.stringify(createLessonDocument(model));
+}
+
+/**
+ * Upgrades older documents to the current version. v0 is the legacy bare voxel array.
+ * Only the envelope is checked here; entries are checked by lessonValidation.
+ */
+export function upgradeLessonDocument(raw: any): LessonDocument {
+    if (Array.isArray(raw)) {
+        return {
+            format: LESSON_FORMAT,
+            version: LESSON_FORMAT_VERSION,
+            name: 'Imported Build',
+            steps: [],
+            voxels: raw
+        };
+    }
+
+    if (!raw || typeof raw !== 'object' || raw.format !== LESSON_FORMAT) {
+        throw new LessonFormatError('Expected a Concept Stack lesson file or a voxel array.');
+    }
+    if (typeof raw.version !== 'number' || raw.version > LESSON_FORMAT_VERSION) {
+        throw new LessonFormatError(`Unsupported lesson file version: ${raw.version}`);
+    }
+    return raw;
+}
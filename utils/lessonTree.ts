@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LessonStep } from '../types';
+
+// A step can hold child steps, which open as a stack of their own. A path is the list of
+// step indices from the top-level stack down, so [] is the lesson itself and [1, 0] the
+// first sub-step of the second step.
+
+export type StepPath = number[];
+
+export function pathKey(path: StepPath): string {
+    return path.join('.');
+}
+
+/** The steps of the stack at `path`, or an empty list when the path leads nowhere. */
+export function stepsAtPath(steps: LessonStep[], path: StepPath): LessonStep[] {
+    let current = steps;
+    for (const index of path) {
+        const children = current[index]?.children;
+        if (!children || children.length === 0) return [];
+        current = children;
+    }
+    return current;
+}
+
+/** The steps passed through on the way down `path`, outermost first. */
+export function stepTrail(steps: LessonStep[], path: StepPath): LessonStep[] {
+    const trail: LessonStep[] = [];
+    let current = steps;
+    for (const index of path) {
+        const step = current[index];
+        if (!step) break;
+        trail.push(step);
+        current = step.children || [];
+    }
+    return trail;
+}
+
+/** Paths of every step below `path` (in `steps`) that opens a sub-stack, depth first. */
+export function subStackPaths(steps: LessonStep[], path: StepPath = []): StepPath[] {
+    const paths: StepPath[] = [];
+    steps.forEach((step, i) => {
+        if (!step.children || step.children.length === 0) return;
+        const childPath = [...path, i];
+        paths.push(childPath, ...subStackPaths(step.children, childPath));
+    });
+    return paths;
+}
+
+/**
+ * How many sub-stacks at and under `path` have been rebuilt, counting the step's own stack.
+ * For [] this covers the whole lesson.
+ */
+export function stackProgress(rootSteps: LessonStep[], path: StepPath, rebuilt: Set<string>): { done: number; total: number } {
+    const steps = stepsAtPath(rootSteps, path);
+    if (steps.length === 0) return { done: 0, total: 0 };
+    const paths = path.length > 0 ? [path, ...subStackPaths(steps, path)] : subStackPaths(steps);
+    return { done: paths.filter(p => rebuilt.has(pathKey(p))).length, total: paths.length };
+}
@@ -0,0 +1,269 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SavedModel, VoxelData, LessonStep } from '../types';
+import { createLessonDocument, upgradeLessonDocument, colorToHex } from './lessonFormat';
+import { isDismantleStyle } from './dismantleStrategies';
+import { readRequires } from './stepGraph';
+import { isStepLabelStyle } from './voxelText';
+
+// Strict checks for every import path (lesson files, legacy arrays, .vox, links).
+// Problems are reported per entry; most can be repaired automatically.
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  path: string; // e.g. "voxels[12].color"
+  message: string;
+  severity: IssueSeverity;
+  fixable: boolean;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  model: SavedModel | null;      // Set when there are no errors
+  fixedModel: SavedModel | null; // Set when every error can be auto-fixed
+}
+
+const DEFAULT_COLOR = 0xCCCCCC;
+const HEX_COLOR = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i;
+
+export function readColor(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return Number.isInteger(value) && value >= 0 && value <= 0xFFFFFF ? value : null;
+    }
+    if (typeof value === 'string' && HEX_COLOR.test(value.trim())) {
+        let hex = value.trim().replace('#', '');
+        if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+        return parseInt(hex, 16);
+    }
+    return null;
+}
+
+function describe(value: unknown): string {
+    if (value === undefined) return 'missing';
+    const text = JSON.stringify(value);
+    return text && text.length > 24 ? text.substring(0, 24) + '...' : String(text);
+}
+
+export function hasErrors(report: ValidationReport): boolean {
+    return report.issues.some(i => i.severity === 'error');
+}
+
+/** Validates an already-parsed lesson document or legacy voxel array. */
+export function validateLessonData(raw: unknown): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    const error = (path: string, message: string, fixable = true) => issues.push({ path, message, severity: 'error', fixable });
+    const warning = (path: string, message: string) => issues.push({ path, message, severity: 'warning', fixable: true });
+    const fail = (): ValidationReport => ({ issues, model: null, fixedModel: null });
+
+    let doc;
+    try {
+        doc = upgradeLessonDocument(raw);
+    } catch (e: any) {
+        error('', e.message, false);
+        return fail();
+    }
+
+    if (!Array.isArray(doc.voxels)) {
+        error('voxels', 'Voxels must be an array.', false);
+        return fail();
+    }
+
+    // --- Steps ---
+    // Sub-steps are checked the same way, with paths like steps[1].children[0]
+    const readSteps = (list: any[], listPath: string): LessonStep[] =>
+        list.map((s: any, i: number) => {
+            const path = `${listPath}[${i}]`;
+            if (!s || typeof s !== 'object') {
+                error(path, 'Step must be an object with text and color.');
+                return { text: `Step ${i + 1}`, color: colorToHex(DEFAULT_COLOR) };
+            }
+            let text = s.text;
+            if (typeof text !== 'string' || !text.trim()) {
+                error(`${path}.text`, `Step text is ${describe(text)}.`);
+                text = `Step ${i + 1}`;
+            }
+            const color = readColor(s.color);
+            if (color === null) error(`${path}.color`, `Invalid color ${describe(s.color)}.`);
+            const step: LessonStep = { text, color: colorToHex(color === null ? DEFAULT_COLOR : color) };
+            if (s.requires !== undefined) {
+                const requires = readRequires(s.requires, i);
+                if (!requires) {
+                    warning(`${path}.requires`, `Prerequisites are ${describe(s.requires)}; the step will follow the previous one.`);
+                } else {
+                    if (requires.length !== s.requires.length) {
+                        warning(`${path}.requires`, 'Prerequisites must be distinct earlier steps; the others will be dropped.');
+                    }
+                    step.requires = requires;
+                }
+            }
+            if (s.children !== undefined) {
+                if (!Array.isArray(s.children)) warning(`${path}.children`, 'Sub-steps must be an array; they will be dropped.');
+                else if (s.children.length > 0) step.children = readSteps(s.children, `${path}.children`);
+            }
+            return step;
+        });
+
+    let steps: LessonStep[] = [];
+    if (doc.steps !== undefined && !Array.isArray(doc.steps)) {
+        error('steps', 'Steps must be an array; they will be dropped.');
+    } else if (Array.isArray(doc.steps)) {
+        steps = readSteps(doc.steps, 'steps');
+    }
+
+    let dismantleStyle: string | undefined;
+    if (doc.dismantleStyle !== undefined) {
+        if (isDismantleStyle(doc.dismantleStyle)) dismantleStyle = doc.dismantleStyle;
+        else warning('dismantleStyle', `Unknown dismantle style ${describe(doc.dismantleStyle)}; the default will be used.`);
+    }
+
+    let stepLabels: string | undefined;
+    if (doc.stepLabels !== undefined) {
+        if (isStepLabelStyle(doc.stepLabels)) stepLabels = doc.stepLabels;
+        else warning('stepLabels', `Unknown label style ${describe(doc.stepLabels)}; labels will be left off.`);
+    }
+
+    let templateParams: Record<string, number> | undefined;
+    if (doc.templateParams !== undefined) {
+        if (!doc.templateParams || typeof doc.templateParams !== 'object' || Array.isArray(doc.templateParams)) {
+            warning('templateParams', `Template parameters are ${describe(doc.templateParams)}; the defaults will be used.`);
+        } else {
+            templateParams = {};
+            Object.entries(doc.templateParams).forEach(([key, value]) => {
+                if (typeof value === 'number' && Number.isFinite(value)) templateParams![key] = value;
+                else warning(`templateParams.${key}`, `Template parameter is ${describe(value)}; the default will be used.`);
+            });
+        }
+    }
+
+    // --- Voxels ---
+    const voxels: VoxelData[] = [];
+    const seen = new Map<string, number>();
+
+    doc.voxels.forEach((v: any, i: number) => {
+        const path = `voxels[${i}]`;
+        if (!v || typeof v !== 'object' || Array.isArray(v)) {
+            error(path, 'Voxel entry must be an object; it will be removed.');
+            return;
+        }
+
+        const coords: number[] = [];
+        let dropped = false;
+        (['x', 'y', 'z'] as const).forEach(axis => {
+            const value = v[axis];
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                error(`${path}.${axis}`, `Coordinate is ${describe(value)}; the voxel will be removed.`);
+                dropped = true;
+            } else if (!Number.isInteger(value)) {
+                error(`${path}.${axis}`, `Coordinate ${value} is not an integer; it will be rounded.`);
+                coords.push(Math.round(value));
+            } else {
+                coords.push(value);
+            }
+        });
+        if (dropped) return;
+
+        let stepIndex = -1;
+        if (v.stepIndex !== undefined) {
+            if (Number.isInteger(v.stepIndex) && v.stepIndex >= -1) {
+                stepIndex = v.stepIndex;
+            } else {
+                error(`${path}.stepIndex`, `Step index ${describe(v.stepIndex)} is invalid; it will become -1.`);
+            }
+        }
+
+        const rawColor = v.color !== undefined ? v.color : v.c;
+        let color = readColor(rawColor);
+        if (color === null) {
+            error(`${path}.color`, `Invalid color ${describe(rawColor)}.`);
+            color = (stepIndex >= 0 && steps[stepIndex] ? readColor(steps[stepIndex].color) : null) ?? DEFAULT_COLOR;
+        }
+
+        const key = coords.join(',');
+        const first = seen.get(key);
+        if (first !== undefined) {
+            error(path, `Duplicate position (${key}), already used by voxels[${first}]; it will be removed.`);
+            return;
+        }
+        seen.set(key, i);
+
+        voxels.push({ x: coords[0], y: coords[1], z: coords[2], color, stepIndex });
+    });
+
+    if (voxels.length === 0) {
+        error('voxels', 'There are no valid voxels to load.', false);
+        return fail();
+    }
+
+    // --- Step consistency ---
+    const used = new Set(voxels.filter(v => v.stepIndex! >= 0).map(v => v.stepIndex!));
+    const maxUsed = Array.from(used).reduce((max, i) => Math.max(max, i), -1);
+
+    if (steps.length > 0) {
+        if (maxUsed >= steps.length) {
+            error('steps', `Voxels use ${maxUsed + 1} steps but the lesson lists ${steps.length}; missing steps will be added.`);
+            for (let i = steps.length; i <= maxUsed; i++) {
+                const sample = voxels.find(v => v.stepIndex === i);
+                steps.push({ text: `Step ${i + 1}`, color: colorToHex(sample ? sample.color : DEFAULT_COLOR) });
+            }
+        }
+        steps.forEach((s, i) => {
+            if (!used.has(i)) error(`steps[${i}]`, `Step ${i + 1} ("${s.text}") has no voxels; it will be removed.`);
+        });
+    } else {
+        for (let i = 0; i < maxUsed; i++) {
+            if (!used.has(i)) warning('voxels', `Step index gap: no voxels use step ${i}; indices will be renumbered.`);
+        }
+    }
+
+    // Renumber so step indices are consecutive and every step has voxels
+    const keptSteps = steps.length > 0 ? steps.map((_, i) => i).filter(i => used.has(i)) : Array.from(used).sort((a, b) => a - b);
+    const remap = new Map(keptSteps.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+    const fixedVoxels = voxels.map(v => ({ ...v, stepIndex: v.stepIndex! >= 0 ? remap.get(v.stepIndex!)! : -1 }));
+    // Prerequisites follow the renumbering; removed steps no longer hold anything up
+    const fixedSteps = steps.length > 0 ? keptSteps.map(i => steps[i].requires
+        ? { ...steps[i], requires: steps[i].requires!.filter(r => remap.has(r)).map(r => remap.get(r)!) }
+        : steps[i]) : [];
+
+    const fixedModel: SavedModel = {
+        name: typeof doc.name === 'string' && doc.name.trim() ? doc.name : 'Imported Build',
+        baseModel: typeof doc.baseModel === 'string' ? doc.baseModel : undefined,
+        template: typeof doc.template === 'string' ? doc.template : undefined,
+        templateParams,
+        stepLabels,
+        seed: typeof doc.seed === 'number' ? doc.seed : undefined,
+        dismantleStyle,
+        steps: fixedSteps.length > 0 ? fixedSteps : undefined,
+        data: fixedVoxels
+    };
+
+    const errors = issues.filter(i => i.severity === 'error');
+    return {
+        issues,
+        // Without errors only warnings remain, which are left as-is unless auto-fix is chosen
+        model: errors.length === 0 ? { ...fixedModel, data: voxels } : null,
+        fixedModel: errors.every(i => i.fixable) ? fixedModel : null
+    };
+}
+
+export function validateLessonJson(json: string): ValidationReport {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch (e: any) {
+        return {
+            issues: [{ path: '', message: `Invalid JSON: ${e.message}`, severity: 'error', fixable: false }],
+            model: null,
+            fixedModel: null
+        };
+    }
+    return validateLessonData(raw);
+}
+
+/** Validates a model produced by another importer (.vox, links) with the same rules. */
+export function validateModel(model: SavedModel): ValidationReport {
+    return validateLessonData(createLessonDocument(model));
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VoxelData, LessonStep } from '../types';
+import { CONFIG } from './voxelConstants';
+import { greedyMesh, toWatertightPolygons, polygonsToArrays, Vec3 } from './voxelMesher';
+
+export type ExportFormat = 'vox' | 'glb' | 'stl';
+
+const GLB_MAGIC = 0x46546C67; // "glTF"
+const GLB_CHUNK_JSON = 0x4E4F534A;
+const GLB_CHUNK_BIN = 0x004E4942;
+const GL_ARRAY_BUFFER = 34962;
+const GL_ELEMENT_ARRAY_BUFFER = 34963;
+const GL_FLOAT = 5126;
+const GL_UNSIGNED_INT = 5125;
+
+function padTo4(length: number): number {
+    return (length + 3) & ~3;
+}
+
+/**
+ * Exports voxels as a binary glTF with one node per lesson step (named after the step)
+ * and vertex colors. Each step is meshed on its own so nodes stay closed when hidden.
+ */
+export function exportGlb(data: VoxelData[], steps: LessonStep[] = [], name = 'Concept Stack'): ArrayBuffer {
+    const groups = new Map<number, VoxelData[]>();
+    data.forEach(v => {
+        const step = v.stepIndex ?? -1;
+        if (!groups.has(step)) groups.set(step, []);
+        groups.get(step)!.push(v);
+    });
+    const stepIds = Array.from(groups.keys()).sort((a, b) => (a < 0 ? Infinity : a) - (b < 0 ? Infinity : b));
+
+    const json: any = {
+        asset: { version: '2.0', generator: 'Concept Stack' },
+        scene: 0,
+        scenes: [{ name, nodes: [0] }],
+        nodes: [{ name, children: [] as number[] }],
+        meshes: [],
+        materials: [{
+            name: 'Voxel',
+            pbrMetallicRoughness: { baseColorFactor: [1, 1, 1, 1], metallicFactor: 0.1, roughnessFactor: 0.8 }
+        }],
+        accessors: [],
+        bufferViews: [],
+        buffers: [{ byteLength: 0 }]
+    };
+
+    const chunks: ArrayBuffer[] = [];
+    let byteOffset = 0;
+    const addView = (array: Float32Array | Uint32Array, target: number) => {
+        json.bufferViews.push({ buffer: 0, byteOffset, byteLength: array.byteLength, target });
+        chunks.push(array.buffer as ArrayBuffer);
+        byteOffset += array.byteLength; // 4-byte element types keep every view aligned
+        return json.bufferViews.length - 1;
+    };
+    const addAccessor = (array: Float32Array | Uint32Array, type: 'VEC3' | 'SCALAR', target: number, withBounds = false) => {
+        const accessor: any = {
+            bufferView: addView(array, target),
+            componentType: array instanceof Float32Array ? GL_FLOAT : GL_UNSIGNED_INT,
+            count: type === 'VEC3' ? array.length / 3 : array.length,
+            type
+        };
+        if (withBounds) {
+            const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+            for (let i = 0; i < array.length; i += 3) {
+                for (let a = 0; a < 3; a++) {
+                    min[a] = Math.min(min[a], array[i + a]);
+                    max[a] = Math.max(max[a], array[i + a]);
+                }
+            }
+            accessor.min = min;
+            accessor.max = max;
+        }
+        json.accessors.push(accessor);
+        return json.accessors.length - 1;
+    };
+
+    stepIds.forEach(step => {
+        const polygons = toWatertightPolygons(greedyMesh(groups.get(step)!));
+        if (polygons.length === 0) return;
+        const arrays = polygonsToArrays(polygons, CONFIG.VOXEL_SIZE);
+        const nodeName = step >= 0 ? (steps[step]?.text || `Step ${step + 1}`) : 'Decoration';
+
+        json.meshes.push({
+            name: nodeName,
+            primitives: [{
+                attributes: {
+                    POSITION: addAccessor(new Float32Array(arrays.positions), 'VEC3', GL_ARRAY_BUFFER, true),
+                    NORMAL: addAccessor(new Float32Array(arrays.normals), 'VEC3', GL_ARRAY_BUFFER),
+                    COLOR_0: addAccessor(new Float32Array(arrays.colors), 'VEC3', GL_ARRAY_BUFFER)
+                },
+                indices: addAccessor(new Uint32Array(arrays.indices), 'SCALAR', GL_ELEMENT_ARRAY_BUFFER),
+                material: 0
+            }]
+        });
+        json.nodes.push({ name: nodeName, mesh: json.meshes.length - 1, extras: { stepIndex: step } });
+        json.nodes[0].children.push(json.nodes.length - 1);
+    });
+
+    json.buffers[0].byteLength = byteOffset;
+
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+    const jsonLength = padTo4(jsonBytes.length);
+    const binLength = padTo4(byteOffset);
+    const totalLength = 12 + 8 + jsonLength + 8 + binLength;
+
+    const out = new ArrayBuffer(totalLength);
+    const view = new DataView(out);
+    const bytes = new Uint8Array(out);
+    view.setUint32(0, GLB_MAGIC, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, totalLength, true);
+
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, GLB_CHUNK_JSON, true);
+    bytes.set(jsonBytes, 20);
+    bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength); // JSON chunk is space padded
+
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, GLB_CHUNK_BIN, true);
+    let offset = binStart + 8;
+    chunks.forEach(chunk => {
+        bytes.set(new Uint8Array(chunk), offset);
+        offset += chunk.byteLength;
+    });
+
+    return out;
+}
+
+/**
+ * Exports the outer surface of the model as a binary STL for 3D printing. Faces are merged
+ * but T-junctions are stitched so the mesh is watertight. STL is Z-up and in millimetres.
+ */
+export function exportStl(data: VoxelData[], voxelSizeMm = 5): ArrayBuffer {
+    const polygons = toWatertightPolygons(greedyMesh(data, () => 'solid'));
+
+    // Y-up scene to Z-up printer space
+    const toPrinter = (p: Vec3): Vec3 => [p[0] * voxelSizeMm, -p[2] * voxelSizeMm, p[1] * voxelSizeMm];
+
+    const triangles: Vec3[][] = [];
+    polygons.forEach(poly => {
+        const n = poly.outline.length;
+        for (let i = 0; i < n; i++) {
+            triangles.push([toPrinter(poly.normal), toPrinter(poly.center), toPrinter(poly.outline[i]), toPrinter(poly.outline[(i + 1) % n])]);
+        }
+    });
+
+    const out = new ArrayBuffer(84 + triangles.length * 50);
+    const view = new DataView(out);
+    const header = new TextEncoder().encode('Concept Stack STL');
+    new Uint8Array(out).set(header, 0);
+    view.setUint32(80, triangles.length, true);
+
+    let offset = 84;
+    triangles.forEach(tri => {
+        const normal = tri[0].map(c => Math.sign(c)); // Undo the mm scale on the unit normal
+        [normal, tri[1], tri[2], tri[3]].forEach(p => {
+            view.setFloat32(offset, p[0], true);
+            view.setFloat32(offset + 4, p[1], true);
+            view.setFloat32(offset + 8, p[2], true);
+            offset += 12;
+        });
+        view.setUint16(offset, 0, true);
+        offset += 2;
+    });
+
+    return out;
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Seeded randomness so builds, dismantles and shuffles can be replayed exactly.
+
+/** Returns a float in [0, 1), like Math.random. */
+export type Rng = () => number;
+
+/** Mulberry32: small, fast and good enough for visuals and shuffles. */
+export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** A fresh seed for new content; everything random in a build derives from it. */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Derives an independent seed for one purpose (e.g. 'dismantle') so that consuming
+ * numbers in one place does not shift the sequence seen by another.
+ */
+export function deriveSeed(seed: number, purpose: string): number {
+    let h = (seed ^ 0x9E3779B9) >>> 0;
+    for (let i = 0; i < purpose.length; i++) {
+        h = Math.imul(h ^ purpose.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return h;
+}
+
+/** Fisher-Yates shuffle returning a new array. */
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Rng } from './random';
+
+// How a rebuilt layer flies back: the order voxels leave the floor in, and the curve they fly along.
+
+export type EasingName = 'linear' | 'easeOutCubic' | 'easeInOutQuad' | 'easeOutBack' | 'easeOutBounce';
+
+export type RebuildPattern = 'bottomUp' | 'spiral' | 'cascade';
+
+export interface RebuildStyle {
+  pattern: RebuildPattern;
+  easing: EasingName;
+}
+
+export const DEFAULT_REBUILD_STYLE: RebuildStyle = { pattern: 'bottomUp', easing: 'easeOutCubic' };
+
+export const REBUILD_PATTERNS: { id: RebuildPattern; label: string }[] = [
+  { id: 'bottomUp', label: 'Bottom Up' },
+  { id: 'spiral', label: 'Spiral' },
+  { id: 'cascade', label: 'Random Cascade' },
+];
+
+export const EASING_OPTIONS: { id: EasingName; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'easeOutCubic', label: 'Smooth' },
+  { id: 'easeInOutQuad', label: 'Ease In & Out' },
+  { id: 'easeOutBack', label: 'Overshoot' },
+  { id: 'easeOutBounce', label: 'Bounce' },
+];
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: t => t,
+  easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+  easeInOutQuad: t => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+  easeOutBack: t => {
+      const c1 = 1.70158;
+      const c3 = c1 + 1;
+      return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+  easeOutBounce: t => {
+      const n1 = 7.5625, d1 = 2.75;
+      if (t < 1 / d1) return n1 * t * t;
+      if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+      if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+      return n1 * (t -= 2.625 / d1) * t + 0.984375;
+  },
+};
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Start delays in seconds for the voxels of one layer, given their target positions.
+ * Delays are normalised to `spread` so large layers take no longer than small ones.
+ */
+export function computeRebuildDelays(targets: Point[], pattern: RebuildPattern, spread: number, rng: Rng): number[] {
+    if (targets.length === 0) return [];
+
+    const cx = targets.reduce((sum, t) => sum + t.x, 0) / targets.length;
+    const cz = targets.reduce((sum, t) => sum + t.z, 0) / targets.length;
+
+    let order: number[];
+    if (pattern === 'cascade') {
+        order = targets.map(() => rng());
+    } else if (pattern === 'spiral') {
+        // Sweep once around the layer centre, lower rows first
+        order = targets.map(t => (Math.atan2(t.z - cz, t.x - cx) + Math.PI) / (2 * Math.PI) + t.y);
+    } else {
+        // Row by row; within a row, from the centre outwards
+        const maxDist = targets.reduce((max, t) => Math.max(max, Math.hypot(t.x - cx, t.z - cz)), 1);
+        order = targets.map(t => t.y + Math.hypot(t.x - cx, t.z - cz) / maxDist * 0.5);
+    }
+
+    const min = order.reduce((a, b) => Math.min(a, b), Infinity);
+    const range = order.reduce((a, b) => Math.max(a, b), -Infinity) - min;
+    return order.map(o => range > 0 ? ((o - min) / range) * spread : 0);
+}
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SavedModel } from '../types';
+import { TemplateName, isTemplateName, buildTemplate } from './voxelGenerators';
+import { createLessonDocument } from './lessonFormat';
+import { readRequires } from './stepGraph';
+import { isStepLabelStyle } from './voxelText';
+import { validateLessonData, validateModel, ValidationReport } from './lessonValidation';
+
+// Lessons are shared through the URL fragment so nothing is sent to a server.
+// Template-based lessons with flat steps only carry the steps; anything else carries the full lesson document.
+
+const FRAGMENT_KEY = 'lesson';
+const SHARE_LINK_VERSION = 1;
+
+type ShareLinkPayload =
+  | { v: number; k: 'steps'; n: string; t: TemplateName; tp?: Record<string, number>; sl?: string; s?: number; ds?: string; st: [string, string, number[]?][] }
+  | { v: number; k: 'model'; d: unknown };
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Blob([bytes]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+function toPayload(model: SavedModel): ShareLinkPayload {
+    if (isTemplateName(model.template) && model.steps && model.steps.length > 0 && model.steps.every(s => !s.children)) {
+        return {
+            v: SHARE_LINK_VERSION,
+            k: 'steps',
+            n: model.name,
+            t: model.template,
+            tp: model.templateParams,
+            sl: model.stepLabels,
+            s: model.seed,
+            ds: model.dismantleStyle,
+            st: model.steps.map(s => s.requires ? [s.text, s.color, s.requires] : [s.text, s.color])
+        };
+    }
+    return { v: SHARE_LINK_VERSION, k: 'model', d: createLessonDocument(model) };
+}
+
+function fromPayload(payload: ShareLinkPayload): SavedModel {
+    let report: ValidationReport;
+    if (payload.k === 'steps') {
+        if (!isTemplateName(payload.t) || !Array.isArray(payload.st)) throw new Error('Malformed lesson link.');
+        const steps = payload.st.map(([text, color, requires], i) => ({ text: String(text), color: String(color), requires: readRequires(requires, i) }));
+        const templateParams = payload.tp && typeof payload.tp === 'object' ? payload.tp : undefined;
+        const stepLabels = isStepLabelStyle(payload.sl) ? payload.sl : undefined;
+        report = validateModel({
+            name: payload.n || 'Shared Lesson',
+            template: payload.t,
+            templateParams,
+            stepLabels,
+            seed: payload.s,
+            dismantleStyle: payload.ds,
+            steps,
+            data: buildTemplate(payload.t, steps, templateParams, stepLabels)
+        });
+    } else {
+        report = validateLessonData(payload.d);
+    }
+
+    if (!report.model) {
+        const firstError = report.issues.find(i => i.severity === 'error');
+        throw new Error(`Invalid lesson link: ${firstError ? firstError.message : 'unknown problem'}`);
+    }
+    return report.model;
+}
+
+/** Encodes a lesson as a compressed URL fragment value. */
+export async function encodeShareFragment(model: SavedModel): Promise<string> {
+    const json = new TextEncoder().encode(JSON.stringify(toPayload(model)));
+    const compressed = await pipeBytes(json, new CompressionStream('deflate-raw'));
+    return `${FRAGMENT_KEY}=${toBase64Url(compressed)}`;
+}
+
+export async function createShareLink(model: SavedModel): Promise<string> {
+    const fragment = await encodeShareFragment(model);
+    return `${window.location.origin}${window.location.pathname}${window.location.search}#${fragment}`;
+}
+
+/** Decodes a lesson from a URL hash. Returns null when the hash holds no lesson. */
+export async function readShareFragment(hash: string): Promise<SavedModel | null> {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const encoded = params.get(FRAGMENT_KEY);
+    if (!encoded) return null;
+
+    const json = await pipeBytes(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    const payload = JSON.parse(new TextDecoder().decode(json));
+    if (typeof payload?.v !== 'number' || payload.v > SHARE_LINK_VERSION) {
+        throw new Error(`Unsupported lesson link version: ${payload?.v}`);
+    }
+    return fromPayload(payload);
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LessonStep, VoxelData } from '../types';
+
+// Lesson steps form a dependency graph. A step lists the earlier steps it needs in `requires`;
+// a step without `requires` needs the one before it, which keeps older lessons strictly ordered.
+// Only earlier indices count, so the graph can never have a cycle.
+
+// How a built shape lets its steps go back. 'graph': a step goes back once the steps it requires
+// are done, because it rests on nothing else. 'strict': one after another, for shapes that do not
+// follow the graph (or whose layout is unknown).
+export type StepOrder = 'graph' | 'strict';
+
+/** Cleans a raw `requires` value for step `index`, or undefined when it is not an array. */
+export function readRequires(value: unknown, index: number): number[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const valid = value.filter((r): r is number => Number.isInteger(r) && r >= 0 && r < index);
+    return Array.from(new Set(valid)).sort((a, b) => a - b);
+}
+
+export function stepPrerequisites(steps: LessonStep[], index: number): number[] {
+    const requires = steps[index]?.requires;
+    if (!requires) return index > 0 ? [index - 1] : [];
+    return requires.filter(r => r >= 0 && r < index);
+}
+
+/** Whether every step needs exactly the one before it, so both orders are the same. */
+export function isLinearGraph(steps: LessonStep[]): boolean {
+    return steps.every((_, i) => {
+        const prerequisites = stepPrerequisites(steps, i);
+        return i === 0 ? prerequisites.length === 0 : prerequisites.length === 1 && prerequisites[0] === i - 1;
+    });
+}
+
+/** Whether the step can be rebuilt without floating: everything it rests on is done. */
+export function isStepUnlocked(steps: LessonStep[], index: number, completed: Set<number>, order: StepOrder): boolean {
+    if (order === 'strict') return steps.every((_, i) => i >= index || completed.has(i));
+    return stepPrerequisites(steps, index).every(r => completed.has(r));
+}
+
+/**
+ * How the steps of a built model may go back. Only the voxels tell: the same template may have
+ * laid a lesson out differently when it was saved, and imports have no template at all.
+ */
+export function stepOrderOf(steps: LessonStep[], data: VoxelData[]): StepOrder {
+    return !isLinearGraph(steps) && followsStepGraph(data, steps) ? 'graph' : 'strict';
+}
+
+/** Steps that are not done yet and can go next. */
+export function unlockedSteps(steps: LessonStep[], completed: Set<number>, order: StepOrder): number[] {
+    return steps.map((_, i) => i).filter(i => !completed.has(i) && isStepUnlocked(steps, i, completed, order));
+}
+
+/** How far up each step sits: 0 without prerequisites, otherwise one above its highest prerequisite. */
+export function stepLevels(steps: LessonStep[]): number[] {
+    const levels: number[] = [];
+    steps.forEach((_, i) => {
+        levels.push(stepPrerequisites(steps, i).reduce((level, r) => Math.max(level, levels[r] + 1), 0));
+    });
+    return levels;
+}
+
+/** Every step each step needs, directly or through others. */
+export function stepAncestors(steps: LessonStep[]): Set<number>[] {
+    const ancestors: Set<number>[] = [];
+    steps.forEach((_, i) => {
+        const all = new Set<number>();
+        stepPrerequisites(steps, i).forEach(r => {
+            all.add(r);
+            ancestors[r].forEach(a => all.add(a));
+        });
+        ancestors.push(all);
+    });
+    return ancestors;
+}
+
+const NEIGHBOURS = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+/**
+ * Whether the voxels can go back in graph order: no voxel sits on a step its own step does
+ * not need, and every connected piece of a step touches the ground or a step it needs.
+ */
+export function followsStepGraph(data: VoxelData[], steps: LessonStep[]): boolean {
+    if (data.length === 0) return true;
+    const ancestors = stepAncestors(steps);
+    const stepAt = new Map(data.map(v => [`${v.x},${v.y},${v.z}`, v.stepIndex ?? -1]));
+    const groundY = data.reduce((min, v) => Math.min(min, v.y), Infinity);
+    const isNeeded = (step: number, other: number | undefined) => other === step || (other !== undefined && other >= 0 && !!ancestors[step]?.has(other));
+
+    for (const v of data) {
+        const step = v.stepIndex ?? -1;
+        if (step < 0) continue;
+        const below = stepAt.get(`${v.x},${v.y - 1},${v.z}`);
+        if (below !== undefined && !isNeeded(step, below)) return false;
+    }
+
+    // Flood each step's pieces, looking for something to hold on to
+    const seen = new Set<string>();
+    for (const v of data) {
+        const step = v.stepIndex ?? -1;
+        const start = `${v.x},${v.y},${v.z}`;
+        if (step < 0 || seen.has(start)) continue;
+        let grounded = false;
+        const queue = [[v.x, v.y, v.z]];
+        seen.add(start);
+        while (queue.length > 0) {
+            const [x, y, z] = queue.pop()!;
+            if (y === groundY) grounded = true;
+            for (const [dx, dy, dz] of NEIGHBOURS) {
+                const key = `${x + dx},${y + dy},${z + dz}`;
+                const other = stepAt.get(key);
+                if (other === step) {
+                    if (!seen.has(key)) {
+                        seen.add(key);
+                        queue.push([x + dx, y + dy, z + dz]);
+                    }
+                } else if (isNeeded(step, other)) {
+                    grounded = true;
+                }
+            }
+        }
+        if (!grounded) return false;
+    }
+    return true;
+}
@@ -0,0 +1,479 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VoxelData, LessonStep } from '../types';
+import { CONFIG } from './voxelConstants';
+
+// MagicaVoxel .vox reader/writer.
+// Spec: https://github.com/ephtracy/voxel-model/blob/master/MagicaVoxel-file-format-vox.txt
+// MagicaVoxel is Z-up; Concept Stack is Y-up, so (x, y, z) in the file maps to (x, z, -y) here.
+
+export type VoxStepMapping = 'none' | 'palette' | 'layer';
+
+export interface VoxImportOptions {
+  stepMapping?: VoxStepMapping;
+}
+
+export interface VoxImportResult {
+  data: VoxelData[];
+  steps?: LessonStep[];
+}
+
+export class VoxFormatError extends Error {
+  constructor(message: string) {
+      super(message);
+      this.name = 'VoxFormatError';
+  }
+}
+
+const VOX_VERSION = 150;
+const MAX_MODEL_SIZE = 256;
+
+// The palette MagicaVoxel uses when a file has no RGBA chunk: a 6x6x6 color cube
+// (without black) followed by red, green, blue and grey ramps. Index 0 is unused.
+const DEFAULT_PALETTE: number[] = (() => {
+    const palette = [0x000000];
+    const cube = [0xFF, 0xCC, 0x99, 0x66, 0x33, 0x00];
+    for (const r of cube) for (const g of cube) for (const b of cube) {
+        if (r === 0 && g === 0 && b === 0) continue;
+        palette.push((r << 16) | (g << 8) | b);
+    }
+    const ramp = [0xEE, 0xDD, 0xBB, 0xAA, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+    ramp.forEach(v => palette.push(v << 16));
+    ramp.forEach(v => palette.push(v << 8));
+    ramp.forEach(v => palette.push(v));
+    ramp.forEach(v => palette.push((v << 16) | (v << 8) | v));
+    return palette;
+})();
+
+function toHex(color: number): string {
+    return '#' + color.toString(16).padStart(6, '0').toUpperCase();
+}
+
+// --- Reading ---
+
+class ByteReader {
+  private view: DataView;
+  public offset = 0;
+
+  constructor(buffer: ArrayBuffer) {
+      this.view = new DataView(buffer);
+  }
+
+  get length() { return this.view.byteLength; }
+
+  public int32(): number {
+      this.ensure(4);
+      const v = this.view.getInt32(this.offset, true);
+      this.offset += 4;
+      return v;
+  }
+
+  public uint8(): number {
+      this.ensure(1);
+      return this.view.getUint8(this.offset++);
+  }
+
+  public id(): string {
+      this.ensure(4);
+      let s = '';
+      for (let i = 0; i < 4; i++) s += String.fromCharCode(this.view.getUint8(this.offset + i));
+      this.offset += 4;
+      return s;
+  }
+
+  public string(): string {
+      const len = this.int32();
+      this.ensure(len);
+      const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, len);
+      this.offset += len;
+      return new TextDecoder().decode(bytes);
+  }
+
+  public dict(): Record<string, string> {
+      const count = this.int32();
+      const dict: Record<string, string> = {};
+      for (let i = 0; i < count; i++) {
+          const key = this.string();
+          dict[key] = this.string();
+      }
+      return dict;
+  }
+
+  private ensure(bytes: number) {
+      if (bytes < 0 || this.offset + bytes > this.view.byteLength) {
+          throw new VoxFormatError('Unexpected end of .vox file.');
+      }
+  }
+}
+
+interface VoxModel {
+  size: [number, number, number];
+  voxels: { x: number; y: number; z: number; c: number }[];
+}
+
+type SceneNode =
+  | { type: 'transform'; child: number; layer: number; translation: [number, number, number] }
+  | { type: 'group'; children: number[] }
+  | { type: 'shape'; models: number[] };
+
+interface PlacedVoxel {
+  x: number;
+  y: number;
+  z: number;
+  colorIndex: number;
+  layer: number;
+}
+
+function parseTranslation(frame: Record<string, string> | undefined): [number, number, number] {
+    if (!frame || !frame._t) return [0, 0, 0];
+    const parts = frame._t.split(' ').map(Number);
+    return [parts[0] || 0, parts[1] || 0, parts[2] || 0];
+}
+
+/** Parses a MagicaVoxel file into voxels, optionally deriving lesson steps from palette indices or layers. */
+export function parseVox(buffer: ArrayBuffer, options: VoxImportOptions = {}): VoxImportResult {
+    const reader = new ByteReader(buffer);
+    if (reader.length < 8 || reader.id() !== 'VOX ') throw new VoxFormatError('Not a MagicaVoxel .vox file.');
+    reader.int32(); // version
+
+    if (reader.id() !== 'MAIN') throw new VoxFormatError('Missing MAIN chunk.');
+    const mainContent = reader.int32();
+    reader.int32(); // children size
+    reader.offset += mainContent;
+
+    const models: VoxModel[] = [];
+    const nodes = new Map<number, SceneNode>();
+    const layerNames = new Map<number, string>();
+    let palette = DEFAULT_PALETTE;
+    let pendingSize: [number, number, number] | null = null;
+
+    while (reader.offset < reader.length) {
+        const id = reader.id();
+        const contentSize = reader.int32();
+        const childrenSize = reader.int32();
+        const end = reader.offset + contentSize;
+
+        switch (id) {
+            case 'SIZE':
+                pendingSize = [reader.int32(), reader.int32(), reader.int32()];
+                break;
+            case 'XYZI': {
+                const count = reader.int32();
+                const voxels = [];
+                for (let i = 0; i < count; i++) {
+                    voxels.push({ x: reader.uint8(), y: reader.uint8(), z: reader.uint8(), c: reader.uint8() });
+                }
+                models.push({ size: pendingSize || [0, 0, 0], voxels });
+                pendingSize = null;
+                break;
+            }
+            case 'RGBA': {
+                palette = [0x000000];
+                for (let i = 0; i < 255; i++) {
+                    const r = reader.uint8(), g = reader.uint8(), b = reader.uint8();
+                    reader.uint8(); // alpha
+                    palette.push((r << 16) | (g << 8) | b);
+                }
+                break;
+            }
+            case 'nTRN': {
+                const nodeId = reader.int32();
+                reader.dict();
+                const child = reader.int32();
+                reader.int32(); // reserved
+                const layer = reader.int32();
+                const frameCount = reader.int32();
+                const frames = [];
+                for (let i = 0; i < frameCount; i++) frames.push(reader.dict());
+                nodes.set(nodeId, { type: 'transform', child, layer, translation: parseTranslation(frames[0]) });
+                break;
+            }
+            case 'nGRP': {
+                const nodeId = reader.int32();
+                reader.dict();
+                const count = reader.int32();
+                const children = [];
+                for (let i = 0; i < count; i++) children.push(reader.int32());
+                nodes.set(nodeId, { type: 'group', children });
+                break;
+            }
+            case 'nSHP': {
+                const nodeId = reader.int32();
+                reader.dict();
+                const count = reader.int32();
+                const shapeModels = [];
+                for (let i = 0; i < count; i++) {
+                    shapeModels.push(reader.int32());
+                    reader.dict();
+                }
+                nodes.set(nodeId, { type: 'shape', models: shapeModels });
+                break;
+            }
+            case 'LAYR': {
+                const layerId = reader.int32();
+                const attrs = reader.dict();
+                if (attrs._name) layerNames.set(layerId, attrs._name);
+                break;
+            }
+            default:
+                // PACK, MATL, rOBJ, IMAP, NOTE... are not needed
+                break;
+        }
+
+        reader.offset = end + childrenSize;
+    }
+
+    const placed: PlacedVoxel[] = [];
+    const placeModel = (modelId: number, t: [number, number, number], layer: number) => {
+        const model = models[modelId];
+        if (!model) return;
+        // Models are centered on their transform
+        const ox = t[0] - Math.floor(model.size[0] / 2);
+        const oy = t[1] - Math.floor(model.size[1] / 2);
+        const oz = t[2] - Math.floor(model.size[2] / 2);
+        model.voxels.forEach(v => placed.push({ x: v.x + ox, y: v.y + oy, z: v.z + oz, colorIndex: v.c, layer }));
+    };
+
+    if (nodes.has(0)) {
+        // Rotations (_r) are ignored; only translations and layers are applied
+        const visit = (nodeId: number, t: [number, number, number], layer: number, depth: number) => {
+            const node = nodes.get(nodeId);
+            if (!node || depth > 64) return;
+            if (node.type === 'transform') {
+                const next: [number, number, number] = [t[0] + node.translation[0], t[1] + node.translation[1], t[2] + node.translation[2]];
+                visit(node.child, next, node.layer >= 0 ? node.layer : layer, depth + 1);
+            } else if (node.type === 'group') {
+                node.children.forEach(c => visit(c, t, layer, depth + 1));
+            } else {
+                node.models.forEach(m => placeModel(m, t, layer));
+            }
+        };
+        visit(0, [0, 0, 0], 0, 0);
+    } else {
+        models.forEach((_, i) => placeModel(i, [0, 0, 0], 0));
+    }
+
+    if (placed.length === 0) throw new VoxFormatError('The .vox file contains no voxels.');
+
+    return buildResult(placed, palette, layerNames, options.stepMapping || 'none');
+}
+
+function buildResult(placed: PlacedVoxel[], palette: number[], layerNames: Map<number, string>, mapping: VoxStepMapping): VoxImportResult {
+    // Compact the chosen key (palette index or layer id) into consecutive step indices
+    const keyOf = (v: PlacedVoxel) => mapping === 'palette' ? v.colorIndex : v.layer;
+    const stepKeys = mapping === 'none' ? [] : Array.from(new Set(placed.map(keyOf))).sort((a, b) => a - b);
+    const stepOfKey = new Map(stepKeys.map((k, i) => [k, i]));
+
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity, minZ = Infinity;
+    placed.forEach(v => {
+        minX = Math.min(minX, v.x); maxX = Math.max(maxX, v.x);
+        minY = Math.min(minY, v.y); maxY = Math.max(maxY, v.y);
+        minZ = Math.min(minZ, v.z);
+    });
+    // Center on X/Z and stand the model on the floor like the templates do
+    const cx = Math.round((minX + maxX) / 2);
+    const cy = Math.round((minY + maxY) / 2);
+    const baseY = CONFIG.FLOOR_Y + 1;
+
+    const map = new Map<string, VoxelData>();
+    placed.forEach(v => {
+        const x = v.x - cx;
+        const y = v.z - minZ + baseY;
+        const z = -(v.y - cy);
+        map.set(`${x},${y},${z}`, {
+            x, y, z,
+            color: palette[v.colorIndex] !== undefined ? palette[v.colorIndex] : 0xCCCCCC,
+            stepIndex: mapping === 'none' ? -1 : stepOfKey.get(keyOf(v))!
+        });
+    });
+    const data = Array.from(map.values());
+
+    if (mapping === 'none') return { data };
+
+    const steps: LessonStep[] = stepKeys.map((key, i) => {
+        if (mapping === 'palette') return { text: `Color ${key}`, color: toHex(palette[key] || 0xCCCCCC) };
+        return { text: layerNames.get(key) || `Layer ${key}`, color: toHex(dominantColor(data, i)) };
+    });
+    return { data, steps };
+}
+
+function dominantColor(data: VoxelData[], stepIndex: number): number {
+    const counts = new Map<number, number>();
+    data.forEach(v => {
+        if (v.stepIndex === stepIndex) counts.set(v.color, (counts.get(v.color) || 0) + 1);
+    });
+    let best = 0xCCCCCC, bestCount = 0;
+    counts.forEach((count, color) => {
+        if (count > bestCount) { best = color; bestCount = count; }
+    });
+    return best;
+}
+
+// --- Writing ---
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  get length() { return this.bytes.length; }
+
+  public int32(v: number) {
+      this.bytes.push(v & 0xFF, (v >> 8) & 0xFF, (v >> 16) & 0xFF, (v >> 24) & 0xFF);
+  }
+
+  public uint8(v: number) {
+      this.bytes.push(v & 0xFF);
+  }
+
+  public id(s: string) {
+      for (let i = 0; i < 4; i++) this.bytes.push(s.charCodeAt(i));
+  }
+
+  public string(s: string) {
+      const encoded = new TextEncoder().encode(s);
+      this.int32(encoded.length);
+      encoded.forEach(b => this.bytes.push(b));
+  }
+
+  public dict(d: Record<string, string>) {
+      const keys = Object.keys(d);
+      this.int32(keys.length);
+      keys.forEach(k => { this.string(k); this.string(d[k]); });
+  }
+
+  public append(other: ByteWriter) {
+      other.bytes.forEach(b => this.bytes.push(b));
+  }
+
+  public toArrayBuffer(): ArrayBuffer {
+      return new Uint8Array(this.bytes).buffer;
+  }
+}
+
+function chunk(out: ByteWriter, id: string, write: (w: ByteWriter) => void) {
+    const content = new ByteWriter();
+    write(content);
+    out.id(id);
+    out.int32(content.length);
+    out.int32(0);
+    out.append(content);
+}
+
+function colorDistance(a: number, b: number): number {
+    const dr = ((a >> 16) & 0xFF) - ((b >> 16) & 0xFF);
+    const dg = ((a >> 8) & 0xFF) - ((b >> 8) & 0xFF);
+    const db = (a & 0xFF) - (b & 0xFF);
+    return dr * dr + dg * dg + db * db;
+}
+
+// Picks up to 255 colors; when a model has more, the most used colors win and the rest snap to the nearest
+function buildPalette(data: VoxelData[]): { palette: number[]; indexOf: (color: number) => number } {
+    const counts = new Map<number, number>();
+    data.forEach(v => counts.set(v.color, (counts.get(v.color) || 0) + 1));
+    const palette = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!).slice(0, 255);
+
+    const lookup = new Map<number, number>();
+    palette.forEach((c, i) => lookup.set(c, i + 1));
+
+    const indexOf = (color: number) => {
+        let index = lookup.get(color);
+        if (index === undefined) {
+            let best = 0;
+            palette.forEach((c, i) => {
+                if (colorDistance(c, color) < colorDistance(palette[best], color)) best = i;
+            });
+            index = best + 1;
+            lookup.set(color, index);
+        }
+        return index;
+    };
+    return { palette, indexOf };
+}
+
+/**
+ * Writes voxels as a MagicaVoxel file. Each step becomes its own model on its own layer
+ * (named after the step) so importing with the 'layer' mapping restores the steps.
+ */
+export function writeVox(data: VoxelData[], steps: LessonStep[] = []): ArrayBuffer {
+    if (data.length === 0) throw new VoxFormatError('There are no voxels to export.');
+
+    const { palette, indexOf } = buildPalette(data);
+
+    // Group voxels by step; decoration (-1) goes last
+    const groups = new Map<number, { x: number; y: number; z: number; c: number }[]>();
+    data.forEach(v => {
+        const step = v.stepIndex !== undefined ? v.stepIndex : -1;
+        if (!groups.has(step)) groups.set(step, []);
+        groups.get(step)!.push({ x: Math.round(v.x), y: Math.round(-v.z), z: Math.round(v.y), c: indexOf(v.color) });
+    });
+    const stepIds = Array.from(groups.keys()).sort((a, b) => (a < 0 ? Infinity : a) - (b < 0 ? Infinity : b));
+
+    const models = stepIds.map(step => {
+        const voxels = groups.get(step)!;
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        voxels.forEach(v => {
+            [v.x, v.y, v.z].forEach((c, i) => { min[i] = Math.min(min[i], c); max[i] = Math.max(max[i], c); });
+        });
+        const size = [max[0] - min[0] + 1, max[1] - min[1] + 1, max[2] - min[2] + 1];
+        if (size.some(s => s > MAX_MODEL_SIZE)) {
+            throw new VoxFormatError(`Model is too large for .vox (max ${MAX_MODEL_SIZE} voxels per axis).`);
+        }
+        return { step, voxels, min, size };
+    });
+
+    const body = new ByteWriter();
+    models.forEach(m => {
+        chunk(body, 'SIZE', w => { w.int32(m.size[0]); w.int32(m.size[1]); w.int32(m.size[2]); });
+        chunk(body, 'XYZI', w => {
+            w.int32(m.voxels.length);
+            m.voxels.forEach(v => {
+                w.uint8(v.x - m.min[0]); w.uint8(v.y - m.min[1]); w.uint8(v.z - m.min[2]); w.uint8(v.c);
+            });
+        });
+    });
+
+    // Scene graph: root transform -> group -> (transform -> shape) per model
+    chunk(body, 'nTRN', w => {
+        w.int32(0); w.dict({}); w.int32(1); w.int32(-1); w.int32(-1);
+        w.int32(1); w.dict({});
+    });
+    chunk(body, 'nGRP', w => {
+        w.int32(1); w.dict({});
+        w.int32(models.length);
+        models.forEach((_, i) => w.int32(2 + i * 2));
+    });
+    models.forEach((m, i) => {
+        const t = m.min.map((c, axis) => c + Math.floor(m.size[axis] / 2));
+        chunk(body, 'nTRN', w => {
+            w.int32(2 + i * 2); w.dict({}); w.int32(3 + i * 2); w.int32(-1); w.int32(i);
+            w.int32(1); w.dict({ _t: t.join(' ') });
+        });
+        chunk(body, 'nSHP', w => {
+            w.int32(3 + i * 2); w.dict({});
+            w.int32(1); w.int32(i); w.dict({});
+        });
+    });
+    models.forEach((m, i) => {
+        const name = m.step >= 0 ? (steps[m.step]?.text || `Step ${m.step + 1}`) : 'Decoration';
+        chunk(body, 'LAYR', w => { w.int32(i); w.dict({ _name: name }); w.int32(-1); });
+    });
+
+    chunk(body, 'RGBA', w => {
+        for (let i = 0; i < 256; i++) {
+            const c = i < palette.length ? palette[i] : 0;
+            w.uint8((c >> 16) & 0xFF); w.uint8((c >> 8) & 0xFF); w.uint8(c & 0xFF); w.uint8(0xFF);
+        }
+    });
+
+    const out = new ByteWriter();
+    out.id('VOX ');
+    out.int32(VOX_VERSION);
+    out.id('MAIN');
+    out.int32(0);
+    out.int32(body.length);
+    out.append(body);
+    return out.toArrayBuffer();
+}
@@ -18,4 +18,7 @@ export const CONFIG = {
   VOXEL_SIZE: 1,
   FLOOR_Y: -12,
   BG_COLOR: 0xf0f2f5, // Matches Tailwind slate-100/gray-100 roughly
+  STATIC_MESH_THRESHOLD: 2000, // Models this large render as one merged mesh while at rest
+  SIM_TIMESTEP: 1 / 60, // Seconds per physics step, independent of the display frame rate
+  HISTORY_MEMORY_BYTES: 32 * 1024 * 1024, // Budget for undo/redo snapshots
 };
\ No newline at end of file
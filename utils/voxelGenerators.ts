@@ -6,6 +6,10 @@
 
 import { VoxelData, LessonStep } from '../types';
 import { COLORS, CONFIG } from './voxelConstants';
+import { Rng, createRng, randomSeed } from './random';
+import { StepOrder, stepLevels, stepPrerequisites, isLinearGraph } from './stepGraph';
+import { StepLabelStyle, GLYPH_HEIGHT, embossStepLabels } from './voxelText';
+import { LucideIcon, Triangle, Castle, Tornado, RefreshCw, ChartColumnIncreasing, Rainbow, TreeDeciduous } from 'lucide-react';
 
 // Helper to prevent overlapping voxels
 function setBlock(map: Map<string, VoxelData>, x: number, y: number, z: number, color: number, stepIndex: number = -1) {
@@ -16,6 +20,84 @@ function setBlock(map: Map<string, VoxelData>, x: number, y: number, z: number,
     map.set(key, { x: rx, y: ry, z: rz, color, stepIndex });
 }
 
+// Like setBlock, but earlier steps keep cells they already own
+function setBlockIfEmpty(map: Map<string, VoxelData>, x: number, y: number, z: number, color: number, stepIndex: number) {
+    if (!map.has(`${Math.round(x)},${Math.round(y)},${Math.round(z)}`)) setBlock(map, x, y, z, color, stepIndex);
+}
+
+type Cell = { x: number; z: number };
+type CellTest = (x: number, z: number, row: number) => boolean; // Whether the shape covers a cell at this row above the floor
+
+// Around the centre, then outwards
+function byAngle(a: Cell, b: Cell): number {
+    const angle = (c: Cell) => (Math.atan2(c.z, c.x) + Math.PI * 2) % (Math.PI * 2);
+    return angle(a) - angle(b) || (a.x * a.x + a.z * a.z) - (b.x * b.x + b.z * b.z) || a.x - b.x || a.z - b.z;
+}
+
+/**
+ * Lays steps out so each one rests only on the steps it requires. Steps without prerequisites
+ * split the floor into wedges; every step then hands the columns under its top on to the steps
+ * that require it, split the same way, and fills each of its own columns from where it took
+ * over up to its top. A linear lesson comes out as plain layers.
+ */
+function layOutGraph(steps: LessonStep[], layerHeight: number, extent: number, inShape: CellTest): { voxels: VoxelData[]; complete: boolean } {
+    const map = new Map<string, VoxelData>();
+    const levels = stepLevels(steps);
+    const prerequisites = steps.map((_, i) => stepPrerequisites(steps, i));
+    const columns: (Cell & { base: number })[][] = steps.map(() => []);
+    const handOn = (cells: Cell[], overhang: Cell[], to: number[], base: number) => {
+        const sorted = [...cells].sort(byAngle);
+        const shares = to.map((_, k) => sorted.slice(Math.floor(k * sorted.length / to.length), Math.floor((k + 1) * sorted.length / to.length)));
+        // Where the shape widens over a gap, the overhang goes to the share it sits beside
+        let left = overhang;
+        for (let grew = true; grew && left.length > 0;) {
+            grew = false;
+            left = left.filter(c => {
+                const share = shares.find(cs => cs.some(o => Math.abs(o.x - c.x) + Math.abs(o.z - c.z) === 1));
+                if (share) share.push(c);
+                grew = grew || !!share;
+                return !share;
+            });
+        }
+        shares.forEach((share, k) => share.sort(byAngle).forEach(c => columns[to[k]].push({ ...c, base })));
+    };
+
+    const floor: Cell[] = [];
+    for (let x = -extent; x <= extent; x++) {
+        for (let z = -extent; z <= extent; z++) if (inShape(x, z, 0)) floor.push({ x, z });
+    }
+    handOn(floor, [], steps.map((_, i) => i).filter(i => prerequisites[i].length === 0), 0);
+
+    let complete = true;
+    steps.forEach((step, index) => {
+        if (columns[index].length === 0) complete = false;
+        const colorInt = getSafeColor(step.color);
+        const top = (levels[index] + 1) * layerHeight;
+        // A column stops where it first leaves the shape; those that reach the top carry the dependents
+        const reached: Cell[] = [];
+        const overhang: Cell[] = [];
+        columns[index].forEach(({ x, z, base }) => {
+            let row = base;
+            for (; row < top && inShape(x, z, row); row++) setBlock(map, x, row + CONFIG.FLOOR_Y + 1, z, colorInt, index);
+            if (inShape(x, z, top)) (row === top ? reached : overhang).push({ x, z });
+        });
+        const dependents = steps.map((_, i) => i).filter(i => prerequisites[i].includes(index));
+        handOn(reached, overhang, dependents, top);
+    });
+    return { voxels: Array.from(map.values()), complete };
+}
+
+// Branchy graphs can split a small shape too finely; it is widened until every step has room
+const MAX_WIDENING = 32;
+
+function layOutGraphWidening(steps: LessonStep[], layerHeight: number, radius: number, shapeOf: (radius: number) => CellTest): VoxelData[] {
+    let layout = layOutGraph(steps, layerHeight, radius, shapeOf(radius));
+    for (let r = radius + 1; !layout.complete && r <= radius + MAX_WIDENING; r++) {
+        layout = layOutGraph(steps, layerHeight, r, shapeOf(r));
+    }
+    return layout.voxels;
+}
+
 // Helper to safely parse color from step
 function getSafeColor(colorStr: string): number {
     try {
@@ -53,14 +135,14 @@ function generateSphere(map: Map<string, VoxelData>, cx: number, cy: number, cz:
 }
 
 export const Generators = {
-    Eagle: (): VoxelData[] => {
+    Eagle: (rng: Rng = createRng(randomSeed())): VoxelData[] => {
         const map = new Map<string, VoxelData>();
         // Branch
         for (let x = -8; x < 8; x++) {
             const y = Math.sin(x * 0.2) * 1.5;
             const z = Math.cos(x * 0.1) * 1.5;
             generateSphere(map, x, y, z, 1.8, COLORS.WOOD);
-            if (Math.random() > 0.7) generateSphere(map, x, y + 2, z + (Math.random() - 0.5) * 3, 1.5, COLORS.GREEN);
+            if (rng() > 0.7) generateSphere(map, x, y + 2, z + (rng() - 0.5) * 3, 1.5, COLORS.GREEN);
         }
         // Body
         const EX = 0, EY = 2, EZ = 2;
@@ -88,64 +170,84 @@ export const Generators = {
     },
 };
 
-// New Procedural Templates for Educational Stacks
+// Procedural templates for lesson stacks. Each one turns the steps into layers, bottom up.
+// Pyramid and Tower follow the prerequisite graph, so any step whose prerequisites are done can
+// go back next; the other shapes give each step its own place and are rebuilt in strict order.
+// Lessons with a non-linear graph only get the shapes that follow it.
+
+export interface TemplateParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number | ((stepCount: number) => number);
+  labelMin?: number; // Smallest value that leaves room for step labels, applied while they are on
+}
+
+export interface LessonTemplate {
+  label: string;
+  icon: LucideIcon;
+  minSteps: number;
+  maxSteps: number;
+  params: TemplateParam[];
+  stepOrder: StepOrder; // 'graph' when it lays out any graph, every step resting only on the steps it requires
+  build(steps: LessonStep[], params: Record<string, number>): VoxelData[];
+}
+
+const LAYER_HEIGHT: TemplateParam = { key: 'layerHeight', label: 'Layer Height', min: 1, max: 6, default: 3, labelMin: GLYPH_HEIGHT };
+
 export const Templates = {
-    Pyramid: (steps: LessonStep[]): VoxelData[] => {
-        const map = new Map<string, VoxelData>();
-        const layerHeight = 3;
-        const totalSteps = Math.max(1, steps.length);
-        const baseRadius = Math.max(3, totalSteps + 1);
-        
-        steps.forEach((step, index) => {
-            const colorInt = getSafeColor(step.color);
-            const yStart = index * layerHeight;
-            
+  Pyramid: {
+    label: 'Pyramid',
+    icon: Triangle,
+    minSteps: 2,
+    maxSteps: 10,
+    params: [
+        LAYER_HEIGHT,
+        { key: 'radius', label: 'Base Radius', min: 3, max: 14, default: stepCount => Math.max(3, stepCount + 1) },
+    ],
+    stepOrder: 'graph',
+    build: (steps, { layerHeight, radius: baseRadius }) => {
+        const totalLayers = stepLevels(steps).reduce((max, level) => Math.max(max, level + 1), 1);
+        return layOutGraphWidening(steps, layerHeight, baseRadius, radius => (x, z, row) => {
+            const level = Math.floor(row / layerHeight);
             // Taper factor
-            const progress = index / totalSteps;
-            const radius = Math.max(1, Math.round(baseRadius * (1 - progress * 0.8)));
-
-            for (let y = 0; y < layerHeight; y++) {
-                const currentY = yStart + y + CONFIG.FLOOR_Y + 1;
-                const r = Math.max(1, radius - (y > 1 ? 1 : 0)); // Slight internal taper
-                
-                for (let x = -r; x <= r; x++) {
-                    for (let z = -r; z <= r; z++) {
-                        setBlock(map, x, currentY, z, colorInt, index);
-                    }
-                }
-            }
+            const progress = level / totalLayers;
+            const layerRadius = Math.max(1, Math.round(radius * (1 - progress * 0.8)));
+            const r = Math.max(1, layerRadius - (row % layerHeight > 1 ? 1 : 0)); // Slight internal taper
+            return Math.abs(x) <= r && Math.abs(z) <= r;
         });
-        return Array.from(map.values());
-    },
+    }
+  },
 
-    Tower: (steps: LessonStep[]): VoxelData[] => {
-        const map = new Map<string, VoxelData>();
-        const layerHeight = 3;
-        const radius = 4;
-        
-        steps.forEach((step, index) => {
-            const colorInt = getSafeColor(step.color);
-            const yStart = index * layerHeight;
-            
-            for (let y = 0; y < layerHeight; y++) {
-                const currentY = yStart + y + CONFIG.FLOOR_Y + 1;
-                
-                // Cylinder
-                for (let x = -radius; x <= radius; x++) {
-                    for (let z = -radius; z <= radius; z++) {
-                         if (x*x + z*z <= radius*radius) {
-                             setBlock(map, x, currentY, z, colorInt, index);
-                         }
-                    }
-                }
-            }
-        });
-        return Array.from(map.values());
-    },
+  Tower: {
+    label: 'Tower',
+    icon: Castle,
+    minSteps: 1,
+    maxSteps: 12,
+    params: [
+        LAYER_HEIGHT,
+        { key: 'radius', label: 'Radius', min: 2, max: 10, default: 4 },
+    ],
+    stepOrder: 'graph',
+    build: (steps, { layerHeight, radius }) => {
+        // Cylinder
+        return layOutGraphWidening(steps, layerHeight, radius, r => (x, z) => x * x + z * z <= r * r);
+    }
+  },
 
-    Spiral: (steps: LessonStep[]): VoxelData[] => {
+  Spiral: {
+    label: 'Spiral',
+    icon: Tornado,
+    minSteps: 2,
+    maxSteps: 12,
+    params: [
+        LAYER_HEIGHT,
+        { key: 'armLength', label: 'Arm Length', min: 4, max: 12, default: 7 },
+    ],
+    stepOrder: 'strict',
+    build: (steps, { layerHeight, armLength }) => {
         const map = new Map<string, VoxelData>();
-        const layerHeight = 3; 
         
         steps.forEach((step, index) => {
             const colorInt = getSafeColor(step.color);
@@ -159,7 +261,6 @@ export const Templates = {
                 for(let x=-2; x<=2; x++) for(let z=-2; z<=2; z++) setBlock(map, x, currentY, z, COLORS.DARK, index);
 
                 // Arm
-                const armLength = 7;
                 const width = 3;
                 
                 for (let d = 2; d < armLength; d++) {
@@ -175,4 +276,193 @@ export const Templates = {
         });
         return Array.from(map.values());
     }
-};
+  },
+
+  // A flat ring of arcs, one per step, going round in order: for cycles with no top or bottom
+  Cycle: {
+    label: 'Cycle',
+    icon: RefreshCw,
+    minSteps: 3,
+    maxSteps: 10,
+    params: [
+        LAYER_HEIGHT,
+        { key: 'radius', label: 'Ring Radius', min: 5, max: 16, default: stepCount => Math.max(6, stepCount * 2) },
+    ],
+    stepOrder: 'strict',
+    build: (steps, { layerHeight, radius }) => {
+        const map = new Map<string, VoxelData>();
+        const thickness = 2;
+        const segment = (Math.PI * 2) / Math.max(1, steps.length);
+        const extent = Math.ceil(radius + thickness);
+
+        for (let x = -extent; x <= extent; x++) {
+            for (let z = -extent; z <= extent; z++) {
+                const d = Math.hypot(x, z);
+                if (Math.abs(d - radius) > thickness / 2 + 0.5) continue;
+                // Clockwise from the front, with a one-voxel notch between neighbouring steps
+                const angle = (Math.atan2(x, z) + Math.PI * 2) % (Math.PI * 2);
+                const index = Math.min(steps.length - 1, Math.floor(angle / segment));
+                const intoSegment = (angle - index * segment) * d;
+                if (intoSegment < 1) continue;
+                const colorInt = getSafeColor(steps[index].color);
+                for (let y = 0; y < layerHeight; y++) {
+                    setBlock(map, x, y + CONFIG.FLOOR_Y + 1, z, colorInt, index);
+                }
+            }
+        }
+        return Array.from(map.values());
+    }
+  },
+
+  // Each step is one stair, standing on the floor and one rise taller than the last
+  Staircase: {
+    label: 'Staircase',
+    icon: ChartColumnIncreasing,
+    minSteps: 2,
+    maxSteps: 12,
+    params: [
+        { key: 'rise', label: 'Step Rise', min: 1, max: 5, default: 2 },
+        { key: 'depth', label: 'Step Depth', min: 1, max: 5, default: 3 },
+        { key: 'width', label: 'Width', min: 2, max: 12, default: 6 },
+    ],
+    stepOrder: 'strict',
+    build: (steps, { rise, depth, width }) => {
+        const map = new Map<string, VoxelData>();
+        const xOffset = -Math.floor((steps.length * depth) / 2);
+        const zOffset = -Math.floor(width / 2);
+
+        steps.forEach((step, index) => {
+            const colorInt = getSafeColor(step.color);
+            const height = (index + 1) * rise;
+            for (let dx = 0; dx < depth; dx++) {
+                for (let z = 0; z < width; z++) {
+                    for (let y = 0; y < height; y++) {
+                        setBlock(map, xOffset + index * depth + dx, y + CONFIG.FLOOR_Y + 1, zOffset + z, colorInt, index);
+                    }
+                }
+            }
+        });
+        return Array.from(map.values());
+    }
+  },
+
+  // Matching bands rise from both feet; the last step is the keystone that closes the arch
+  Arch: {
+    label: 'Arch',
+    icon: Rainbow,
+    minSteps: 2,
+    maxSteps: 9,
+    params: [
+        { key: 'radius', label: 'Span Radius', min: 5, max: 16, default: stepCount => Math.max(7, stepCount + 4) },
+        { key: 'thickness', label: 'Thickness', min: 2, max: 5, default: 3, labelMin: GLYPH_HEIGHT },
+        { key: 'depth', label: 'Depth', min: 1, max: 8, default: 4 },
+    ],
+    stepOrder: 'strict',
+    build: (steps, { radius, thickness, depth }) => {
+        const map = new Map<string, VoxelData>();
+        const baseY = CONFIG.FLOOR_Y + 1;
+        const inner = radius - thickness;
+        // Bands and keystone share the quarter turn from foot to crown; the keystone straddles the crown
+        const band = (Math.PI / 2) / Math.max(0.5, steps.length - 0.5);
+        const zOffset = -Math.floor(depth / 2);
+
+        for (let x = -radius; x <= radius; x++) {
+            for (let y = 0; y <= radius; y++) {
+                const d = Math.hypot(x, y);
+                if (d < inner || d > radius) continue;
+                const fromFoot = Math.min(Math.atan2(y, x), Math.PI - Math.atan2(y, x));
+                const index = Math.min(steps.length - 1, Math.floor(fromFoot / band));
+                const colorInt = getSafeColor(steps[index].color);
+                for (let z = 0; z < depth; z++) {
+                    setBlock(map, x, baseY + y, zOffset + z, colorInt, index);
+                }
+            }
+        }
+        return Array.from(map.values());
+    }
+  },
+
+  // The first step is the trunk; every later step branches off it, higher up and facing a new way
+  Tree: {
+    label: 'Tree',
+    icon: TreeDeciduous,
+    minSteps: 2,
+    maxSteps: 9,
+    params: [
+        { key: 'spacing', label: 'Branch Spacing', min: 2, max: 5, default: 3 },
+        { key: 'armLength', label: 'Branch Length', min: 3, max: 10, default: 6 },
+    ],
+    stepOrder: 'strict',
+    build: (steps, { spacing, armLength }) => {
+        const map = new Map<string, VoxelData>();
+        const baseY = CONFIG.FLOOR_Y + 1;
+        const golden = Math.PI * (3 - Math.sqrt(5));
+        const trunkHeight = 4 + (steps.length - 1) * spacing + 2;
+
+        const trunkColor = getSafeColor(steps[0].color);
+        for (let y = 0; y < trunkHeight; y++) {
+            for (let x = -1; x <= 1; x++) for (let z = -1; z <= 1; z++) setBlock(map, x, baseY + y, z, trunkColor, 0);
+        }
+
+        // Branches never take cells from earlier steps, so everything they rest on is already built
+        steps.slice(1).forEach((step, i) => {
+            const index = i + 1;
+            const colorInt = getSafeColor(step.color);
+            const angle = i * golden;
+            const startY = baseY + 4 + i * spacing;
+            let tipX = 0, tipY = startY, tipZ = 0;
+            for (let d = 1; d <= armLength + 1; d++) {
+                tipX = Math.cos(angle) * d;
+                tipY = startY + d * 0.6;
+                tipZ = Math.sin(angle) * d;
+                setBlockIfEmpty(map, tipX, tipY, tipZ, colorInt, index);
+                setBlockIfEmpty(map, tipX, tipY + 1, tipZ, colorInt, index);
+            }
+            // Leaf cluster at the tip
+            for (let x = -2; x <= 2; x++) for (let y = -1; y <= 2; y++) for (let z = -2; z <= 2; z++) {
+                if (x * x + y * y + z * z <= 5) setBlockIfEmpty(map, tipX + x, tipY + y, tipZ + z, colorInt, index);
+            }
+        });
+        return Array.from(map.values());
+    }
+  },
+} satisfies Record<string, LessonTemplate>;
+
+export type TemplateName = keyof typeof Templates;
+
+export const DEFAULT_TEMPLATE: TemplateName = 'Tower';
+
+export function isTemplateName(name: unknown): name is TemplateName {
+    return typeof name === 'string' && Object.prototype.hasOwnProperty.call(Templates, name);
+}
+
+/** Templates whose step range fits the lesson and, unless its steps simply follow one another, that follow its graph. */
+export function templatesForSteps(steps: LessonStep[]): TemplateName[] {
+    const isLinear = isLinearGraph(steps);
+    return (Object.keys(Templates) as TemplateName[]).filter(name => {
+        const t: LessonTemplate = Templates[name];
+        return steps.length >= t.minSteps && steps.length <= t.maxSteps && (isLinear || t.stepOrder === 'graph');
+    });
+}
+
+/**
+ * Every parameter of a template: overrides where given and in range, defaults otherwise.
+ * With labels on, parameters with a labelMin are raised to make room for the lettering.
+ */
+export function resolveTemplateParams(name: TemplateName, stepCount: number, overrides: Record<string, number> = {}, labels: StepLabelStyle = 'off'): Record<string, number> {
+    const params: Record<string, number> = {};
+    (Templates[name] as LessonTemplate).params.forEach(p => {
+        const fallback = typeof p.default === 'function' ? p.default(stepCount) : p.default;
+        const value = overrides[p.key];
+        params[p.key] = typeof value === 'number' && Number.isFinite(value)
+            ? Math.min(p.max, Math.max(p.min, Math.round(value)))
+            : fallback;
+        if (labels !== 'off' && p.labelMin !== undefined) params[p.key] = Math.max(params[p.key], p.labelMin);
+    });
+    return params;
+}
+
+export function buildTemplate(name: TemplateName, steps: LessonStep[], overrides?: Record<string, number>, labels: StepLabelStyle = 'off'): VoxelData[] {
+    const data = (Templates[name] as LessonTemplate).build(steps, resolveTemplateParams(name, steps.length, overrides, labels));
+    return embossStepLabels(data, steps, labels);
+}
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VoxelData } from '../types';
+
+// Culls faces shared by two voxels and merges the remaining coplanar faces into rectangles.
+// Voxels sit on integer coordinates and span +/- 0.5 around them.
+
+export type Axis = 0 | 1 | 2;
+
+export interface VoxelQuad {
+  axis: Axis;       // Axis of the face normal
+  sign: 1 | -1;     // Direction of the face normal along that axis
+  layer: number;    // Voxel coordinate along the axis (the face lies at layer + sign * 0.5)
+  u0: number;       // Inclusive voxel ranges along the two in-plane axes
+  u1: number;
+  v0: number;
+  v1: number;
+  color: number;
+  stepIndex: number;
+}
+
+export type Vec3 = [number, number, number];
+
+export interface MeshPolygon {
+  normal: Vec3;
+  color: number;
+  stepIndex: number;
+  // Outline in counter-clockwise order seen from outside, plus a center used for fan triangulation
+  outline: Vec3[];
+  center: Vec3;
+}
+
+const keyOf = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+/** In-plane axes for a face normal axis, ordered so that u x v points along +axis. */
+export function planeAxes(axis: Axis): [Axis, Axis] {
+    return [((axis + 1) % 3) as Axis, ((axis + 2) % 3) as Axis];
+}
+
+/**
+ * Builds merged quads for the visible faces of a voxel set.
+ * Faces only merge when `groupOf` returns the same key (by default: same color and step).
+ */
+export function greedyMesh(voxels: VoxelData[], groupOf: (v: VoxelData) => string = v => `${v.color}|${v.stepIndex ?? -1}`): VoxelQuad[] {
+    const occupied = new Map<string, VoxelData>();
+    voxels.forEach(v => occupied.set(keyOf(Math.round(v.x), Math.round(v.y), Math.round(v.z)), v));
+
+    const quads: VoxelQuad[] = [];
+
+    for (const axis of [0, 1, 2] as Axis[]) {
+        const [ua, va] = planeAxes(axis);
+
+        for (const sign of [1, -1] as const) {
+            // Visible faces bucketed per plane and merge group
+            const buckets = new Map<string, { layer: number; group: string; voxel: VoxelData; cells: Map<string, [number, number]> }>();
+
+            occupied.forEach((v, key) => {
+                const p = key.split(',').map(Number);
+                const n = [p[0], p[1], p[2]];
+                n[axis] += sign;
+                if (occupied.has(keyOf(n[0], n[1], n[2]))) return;
+
+                const group = groupOf(v);
+                const bucketKey = `${p[axis]}|${group}`;
+                let bucket = buckets.get(bucketKey);
+                if (!bucket) {
+                    bucket = { layer: p[axis], group, voxel: v, cells: new Map() };
+                    buckets.set(bucketKey, bucket);
+                }
+                bucket.cells.set(`${p[ua]},${p[va]}`, [p[ua], p[va]]);
+            });
+
+            buckets.forEach(bucket => {
+                const cells = bucket.cells;
+                const sorted = Array.from(cells.values()).sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+                const used = new Set<string>();
+
+                sorted.forEach(([u, v]) => {
+                    if (used.has(`${u},${v}`)) return;
+
+                    // Grow along u, then along v while the whole row is free
+                    let u1 = u;
+                    while (cells.has(`${u1 + 1},${v}`) && !used.has(`${u1 + 1},${v}`)) u1++;
+                    let v1 = v;
+                    for (;;) {
+                        let rowFree = true;
+                        for (let x = u; x <= u1; x++) {
+                            const k = `${x},${v1 + 1}`;
+                            if (!cells.has(k) || used.has(k)) { rowFree = false; break; }
+                        }
+                        if (!rowFree) break;
+                        v1++;
+                    }
+
+                    for (let y = v; y <= v1; y++) for (let x = u; x <= u1; x++) used.add(`${x},${y}`);
+
+                    quads.push({
+                        axis, sign, layer: bucket.layer,
+                        u0: u, u1, v0: v, v1,
+                        color: bucket.voxel.color,
+                        stepIndex: bucket.voxel.stepIndex ?? -1
+                    });
+                });
+            });
+        }
+    }
+
+    return quads;
+}
+
+function point(axis: Axis, plane: number, u: number, v: number): Vec3 {
+    const [ua, va] = planeAxes(axis);
+    const p: Vec3 = [0, 0, 0];
+    p[axis] = plane;
+    p[ua] = u;
+    p[va] = v;
+    return p;
+}
+
+/** The four corners of a quad, counter-clockwise seen from outside. */
+export function quadCorners(q: VoxelQuad): Vec3[] {
+    const plane = q.layer + q.sign * 0.5;
+    const a = q.u0 - 0.5, b = q.u1 + 0.5, c = q.v0 - 0.5, d = q.v1 + 0.5;
+    const corners = [
+        point(q.axis, plane, a, c),
+        point(q.axis, plane, b, c),
+        point(q.axis, plane, b, d),
+        point(q.axis, plane, a, d),
+    ];
+    return q.sign === 1 ? corners : corners.reverse();
+}
+
+export function quadNormal(q: VoxelQuad): Vec3 {
+    const n: Vec3 = [0, 0, 0];
+    n[q.axis] = q.sign;
+    return n;
+}
+
+/**
+ * Converts quads to polygons whose outlines include every corner of a neighbouring quad that
+ * touches their edges. Fan-triangulating these from their centers leaves no T-junctions, so
+ * the surface stays watertight.
+ */
+export function toWatertightPolygons(quads: VoxelQuad[]): MeshPolygon[] {
+    const pointKey = (p: Vec3) => `${p[0] * 2},${p[1] * 2},${p[2] * 2}`;
+    const vertices = new Set<string>();
+    const cornersOf = quads.map(q => {
+        const corners = quadCorners(q);
+        corners.forEach(c => vertices.add(pointKey(c)));
+        return corners;
+    });
+
+    return quads.map((q, i) => {
+        const corners = cornersOf[i];
+        const outline: Vec3[] = [];
+        for (let c = 0; c < 4; c++) {
+            const from = corners[c];
+            const to = corners[(c + 1) % 4];
+            outline.push(from);
+            // Edges are axis aligned with integer lengths; check every lattice point in between
+            const dir = [Math.sign(to[0] - from[0]), Math.sign(to[1] - from[1]), Math.sign(to[2] - from[2])];
+            const steps = Math.round(Math.abs(to[0] - from[0]) + Math.abs(to[1] - from[1]) + Math.abs(to[2] - from[2]));
+            for (let s = 1; s < steps; s++) {
+                const p: Vec3 = [from[0] + dir[0] * s, from[1] + dir[1] * s, from[2] + dir[2] * s];
+                if (vertices.has(pointKey(p))) outline.push(p);
+            }
+        }
+        const center: Vec3 = [
+            (corners[0][0] + corners[2][0]) / 2,
+            (corners[0][1] + corners[2][1]) / 2,
+            (corners[0][2] + corners[2][2]) / 2,
+        ];
+        return { normal: quadNormal(q), color: q.color, stepIndex: q.stepIndex, outline, center };
+    });
+}
+
+export interface MeshArrays {
+  positions: number[];
+  normals: number[];
+  colors: number[]; // Linear RGB
+  indices: number[];
+}
+
+function srgbToLinear(c: number): number {
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/** Fan-triangulates polygons into flat vertex arrays, scaled from voxel units. */
+export function polygonsToArrays(polygons: MeshPolygon[], scale: number): MeshArrays {
+    const arrays: MeshArrays = { positions: [], normals: [], colors: [], indices: [] };
+    polygons.forEach(poly => {
+        const r = srgbToLinear(((poly.color >> 16) & 0xFF) / 255);
+        const g = srgbToLinear(((poly.color >> 8) & 0xFF) / 255);
+        const b = srgbToLinear((poly.color & 0xFF) / 255);
+        const base = arrays.positions.length / 3;
+        [poly.center, ...poly.outline].forEach(p => {
+            arrays.positions.push(p[0] * scale, p[1] * scale, p[2] * scale);
+            arrays.normals.push(...poly.normal);
+            arrays.colors.push(r, g, b);
+        });
+        const n = poly.outline.length;
+        for (let i = 0; i < n; i++) {
+            arrays.indices.push(base, base + 1 + i, base + 1 + ((i + 1) % n));
+        }
+    });
+    return arrays;
+}
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VoxelData, LessonStep } from '../types';
+import { COLORS } from './voxelConstants';
+import { stepAncestors } from './stepGraph';
+
+// Step labels built from voxels, so they show up in exports, recordings and screenshots.
+// Labels are embossed one block out from a side of their layer, or on top of it when no side
+// is tall enough, and carry the layer's stepIndex, so they come apart and go back together with it.
+
+export type StepLabelStyle = 'off' | 'number' | 'text';
+
+export const STEP_LABEL_STYLES: { id: StepLabelStyle; label: string }[] = [
+  { id: 'off', label: 'No Labels' },
+  { id: 'number', label: 'Step Numbers' },
+  { id: 'text', label: 'Step Text' },
+];
+
+export function isStepLabelStyle(style: unknown): style is StepLabelStyle {
+    return STEP_LABEL_STYLES.some(s => s.id === style);
+}
+
+export const GLYPH_WIDTH = 3;
+export const GLYPH_HEIGHT = 5;
+const GLYPH_SPACING = 1;
+
+// 3x5 bitmap font, rows top to bottom. Letters are drawn upper case.
+const FONT: Record<string, string[]> = {
+    A: ['.#.', '#.#', '###', '#.#', '#.#'],
+    B: ['##.', '#.#', '##.', '#.#', '##.'],
+    C: ['.##', '#..', '#..', '#..', '.##'],
+    D: ['##.', '#.#', '#.#', '#.#', '##.'],
+    E: ['###', '#..', '##.', '#..', '###'],
+    F: ['###', '#..', '##.', '#..', '#..'],
+    G: ['.##', '#..', '#.#', '#.#', '.##'],
+    H: ['#.#', '#.#', '###', '#.#', '#.#'],
+    I: ['###', '.#.', '.#.', '.#.', '###'],
+    J: ['..#', '..#', '..#', '#.#', '.#.'],
+    K: ['#.#', '#.#', '##.', '#.#', '#.#'],
+    L: ['#..', '#..', '#..', '#..', '###'],
+    M: ['#.#', '###', '###', '#.#', '#.#'],
+    N: ['##.', '#.#', '#.#', '#.#', '#.#'],
+    O: ['.#.', '#.#', '#.#', '#.#', '.#.'],
+    P: ['##.', '#.#', '##.', '#..', '#..'],
+    Q: ['.#.', '#.#', '#.#', '##.', '.##'],
+    R: ['##.', '#.#', '##.', '#.#', '#.#'],
+    S: ['.##', '#..', '.#.', '..#', '##.'],
+    T: ['###', '.#.', '.#.', '.#.', '.#.'],
+    U: ['#.#', '#.#', '#.#', '#.#', '###'],
+    V: ['#.#', '#.#', '#.#', '#.#', '.#.'],
+    W: ['#.#', '#.#', '###', '###', '#.#'],
+    X: ['#.#', '#.#', '.#.', '#.#', '#.#'],
+    Y: ['#.#', '#.#', '.#.', '.#.', '.#.'],
+    Z: ['###', '..#', '.#.', '#..', '###'],
+    '0': ['###', '#.#', '#.#', '#.#', '###'],
+    '1': ['.#.', '##.', '.#.', '.#.', '###'],
+    '2': ['##.', '..#', '.#.', '#..', '###'],
+    '3': ['##.', '..#', '.#.', '..#', '##.'],
+    '4': ['#.#', '#.#', '###', '..#', '..#'],
+    '5': ['###', '#..', '##.', '..#', '##.'],
+    '6': ['.##', '#..', '###', '#.#', '###'],
+    '7': ['###', '..#', '.#.', '.#.', '.#.'],
+    '8': ['###', '#.#', '###', '#.#', '###'],
+    '9': ['###', '#.#', '###', '..#', '##.'],
+    ' ': ['...', '...', '...', '...', '...'],
+    '-': ['...', '...', '###', '...', '...'],
+    '.': ['...', '...', '...', '...', '.#.'],
+    '!': ['.#.', '.#.', '.#.', '...', '.#.'],
+    '?': ['##.', '..#', '.#.', '...', '.#.'],
+};
+
+/** Normalizes text to what the font can draw; other characters become spaces. */
+export function toFontText(text: string): string {
+    return text.toUpperCase().replace(/./g, c => FONT[c] ? c : ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function textWidth(text: string): number {
+    return text.length === 0 ? 0 : text.length * (GLYPH_WIDTH + GLYPH_SPACING) - GLYPH_SPACING;
+}
+
+/** Filled cells of the text, with u to the right and v up from the baseline. */
+export function rasterizeText(text: string): { u: number; v: number }[] {
+    const cells: { u: number; v: number }[] = [];
+    toFontText(text).split('').forEach((c, i) => {
+        FONT[c].forEach((row, r) => {
+            row.split('').forEach((px, col) => {
+                if (px === '#') cells.push({ u: i * (GLYPH_WIDTH + GLYPH_SPACING) + col, v: GLYPH_HEIGHT - 1 - r });
+            });
+        });
+    });
+    return cells;
+}
+
+// Sides to try, front first. `right` is the reading direction seen from outside; both are (x, z).
+const FACES = [
+  { normal: [0, 1], right: [1, 0] },
+  { normal: [1, 0], right: [0, -1] },
+  { normal: [0, -1], right: [-1, 0] },
+  { normal: [-1, 0], right: [0, 1] },
+];
+
+const keyOf = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+// Free cells a label could fill, keyed by `${u},${v}` in the plane of the text
+type Surface = Map<string, { x: number; y: number; z: number }>;
+type CellTest = (x: number, y: number, z: number) => boolean;
+
+// Dark text on light layers, light text on dark ones
+function labelColor(color: number): number {
+    const luminance = (0.299 * ((color >> 16) & 255) + 0.587 * ((color >> 8) & 255) + 0.114 * (color & 255)) / 255;
+    return luminance > 0.6 ? COLORS.BLACK : COLORS.WHITE;
+}
+
+// Offsets to try, nearest to the centre first
+function offsetsAround(limit: number): number[] {
+    const offsets = [0];
+    for (let i = 1; i <= limit; i++) offsets.push(i, -i);
+    return offsets;
+}
+
+/** One block out from the outermost voxel of the step at each (u, y) of the side. */
+function sideSurface(canHold: CellTest, voxels: VoxelData[], normal: number[], right: number[]): Surface {
+    const outermost = new Map<string, number>();
+    voxels.forEach(v => {
+        const key = `${v.x * right[0] + v.z * right[1]},${v.y}`;
+        const depth = v.x * normal[0] + v.z * normal[1];
+        if (!outermost.has(key) || outermost.get(key)! < depth) outermost.set(key, depth);
+    });
+    const surface: Surface = new Map();
+    outermost.forEach((depth, key) => {
+        const [u, y] = key.split(',').map(Number);
+        const x = u * right[0] + (depth + 1) * normal[0];
+        const z = u * right[1] + (depth + 1) * normal[1];
+        if (canHold(x, y, z)) surface.set(key, { x, y, z });
+    });
+    return surface;
+}
+
+/** One block above the highest voxel of the step in each column, read from the `normal` side. */
+function topSurface(canHold: CellTest, voxels: VoxelData[], normal: number[], right: number[]): Surface {
+    const highest = new Map<string, number>();
+    voxels.forEach(v => {
+        const key = `${v.x},${v.z}`;
+        if (!highest.has(key) || highest.get(key)! < v.y) highest.set(key, v.y);
+    });
+    const surface: Surface = new Map();
+    highest.forEach((y, key) => {
+        const [x, z] = key.split(',').map(Number);
+        if (!canHold(x, y + 1, z)) return;
+        // The top of the text points away from the reader
+        surface.set(`${x * right[0] + z * right[1]},${-(x * normal[0] + z * normal[1])}`, { x, y: y + 1, z });
+    });
+    return surface;
+}
+
+/** Where the text's filled cells go when centred on the surface as closely as it fits, or null. */
+function placeText(surface: Surface, text: string): { x: number; y: number; z: number }[] | null {
+    const cells = rasterizeText(text);
+    if (cells.length === 0 || surface.size === 0) return null;
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    surface.forEach((_, key) => {
+        const [u, v] = key.split(',').map(Number);
+        minU = Math.min(minU, u); maxU = Math.max(maxU, u);
+        minV = Math.min(minV, v); maxV = Math.max(maxV, v);
+    });
+    if (maxV - minV + 1 < GLYPH_HEIGHT) return null;
+    const startU = Math.round((minU + maxU - textWidth(toFontText(text)) + 1) / 2);
+    const startV = Math.round((minV + maxV - GLYPH_HEIGHT + 1) / 2);
+
+    for (const dv of offsetsAround(maxV - minV)) {
+        for (const du of offsetsAround(maxU - minU)) {
+            const keys = cells.map(c => `${startU + du + c.u},${startV + dv + c.v}`);
+            if (keys.every(key => surface.has(key))) return keys.map(key => surface.get(key)!);
+        }
+    }
+    return null;
+}
+
+/**
+ * Places `text` on the first side of the step's voxels (or, for `top`, the first reading
+ * direction across its top) where every filled cell lands on that step's outer surface.
+ * Returns the label voxels, or null when it fits nowhere.
+ */
+function embossOnStep(canHold: CellTest, voxels: VoxelData[], text: string, stepIndex: number, on: 'side' | 'top'): VoxelData[] | null {
+    const color = labelColor(voxels[0].color);
+    for (const { normal, right } of FACES) {
+        const surface = on === 'side' ? sideSurface(canHold, voxels, normal, right) : topSurface(canHold, voxels, normal, right);
+        const placed = placeText(surface, text);
+        if (placed) return placed.map(p => ({ ...p, color, stepIndex }));
+    }
+    return null;
+}
+
+/**
+ * Adds a label to every step that has room for one. Text labels that do not fit fall back
+ * to the first word, then to the step number. Steps too short for any of them on a side get
+ * the label on top instead; steps with no room at all stay unlabelled.
+ */
+export function embossStepLabels(data: VoxelData[], steps: LessonStep[], style: StepLabelStyle): VoxelData[] {
+    if (style === 'off') return data;
+    const occupied = new Map(data.map(v => [keyOf(v.x, v.y, v.z), v]));
+    const ancestors = stepAncestors(steps);
+    // A label goes back with its step, so it may only rest on steps that one needs, and only
+    // steps that need it may rest on the label
+    const canHoldFor = (stepIndex: number): CellTest => (x, y, z) => {
+        if (occupied.has(keyOf(x, y, z))) return false;
+        const below = occupied.get(keyOf(x, y - 1, z))?.stepIndex;
+        const above = occupied.get(keyOf(x, y + 1, z))?.stepIndex;
+        return (below === undefined || below === stepIndex || ancestors[stepIndex].has(below)) &&
+            (above === undefined || above === stepIndex || !!ancestors[above]?.has(stepIndex));
+    };
+    const labels: VoxelData[] = [];
+
+    steps.forEach((step, stepIndex) => {
+        const voxels = data.filter(v => v.stepIndex === stepIndex);
+        if (voxels.length === 0) return;
+        const number = String(stepIndex + 1);
+        const text = toFontText(step.text);
+        const candidates = style === 'text' ? [text, text.split(' ')[0], number] : [number];
+
+        // Every candidate is tried on the sides before any goes on top
+        const attempts = (['side', 'top'] as const).flatMap(on => candidates.map(candidate => ({ on, candidate })));
+
+        for (const { on, candidate } of attempts) {
+            const placed = candidate && embossOnStep(canHoldFor(stepIndex), voxels, candidate, stepIndex, on);
+            if (!placed) continue;
+            placed.forEach(v => occupied.set(keyOf(v.x, v.y, v.z), v));
+            labels.push(...placed);
+            break;
+        }
+    });
+    return [...data, ...labels];
+}
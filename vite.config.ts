@@ -12,12 +12,26 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Library builds leave this to the host page, which has no `process`
+        ...(mode === 'embed' && { 'process.env.NODE_ENV': JSON.stringify('production') }),
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `vite build --mode embed`: a single script that defines <concept-stack>, with React and three bundled in
+      ...(mode === 'embed' && {
+        build: {
+          outDir: 'dist/embed',
+          lib: {
+            entry: path.resolve(__dirname, 'embed.tsx'),
+            name: 'ConceptStack',
+            formats: ['iife'],
+            fileName: () => 'concept-stack.js',
+          },
+        },
+      }),
     };
 });